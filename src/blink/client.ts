@@ -2,5 +2,7 @@ import { createClient } from '@blinkdotnew/sdk'
 
 export const blink = createClient({
   projectId: 'amazon-ecommerce-clone-8dciv6ep',
-  authRequired: true
+  // Guests browse, search and fill a cart before signing in; checkout, orders
+  // and the account pages ask for sign-in themselves
+  authRequired: false
 })
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { useFormContext, useWatch, type Control, type FieldValues, type Path } from 'react-hook-form'
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { COUNTRIES, getCountryRules } from '@/lib/address'
+
+interface AddressFieldsProps<T extends FieldValues> {
+  control: Control<T>
+  // Where the address sits in the form, e.g. "billingAddress."; empty for a form that is only an address
+  prefix?: string
+}
+
+export function AddressFields<T extends FieldValues>({ control, prefix = '' }: AddressFieldsProps<T>) {
+  const name = (field: string) => `${prefix}${field}` as Path<T>
+  // Labels and the region field follow the chosen country
+  const rules = getCountryRules(useWatch({ control, name: name('country') }))
+  const { setValue } = useFormContext<T>()
+
+  const textField = (field: string, label: string, autoComplete: string, placeholder?: string) => (
+    <FormField
+      control={control}
+      name={name(field)}
+      render={({ field: input }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input autoComplete={autoComplete} placeholder={placeholder} {...input} value={input.value ?? ''} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+
+  return (
+    <div className="space-y-4">
+      <FormField
+        control={control}
+        name={name('country')}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Country</FormLabel>
+            <Select
+              value={field.value}
+              onValueChange={(country) => {
+                field.onChange(country)
+                // A state from another country would never be valid here
+                setValue(name('state'), '' as T[Path<T>])
+              }}
+            >
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a country" />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {COUNTRIES.map(country => (
+                  <SelectItem key={country.code} value={country.code}>{country.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      {textField('name', 'Full name', 'name')}
+      {textField('street', 'Street address', 'street-address')}
+      <div className="grid sm:grid-cols-2 gap-4">
+        {textField('city', 'City', 'address-level2')}
+        {rules?.region?.options ? (
+          <FormField
+            control={control}
+            name={name('state')}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{rules.region!.label}</FormLabel>
+                <Select value={field.value || undefined} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder={`Choose a ${rules.region!.label.toLowerCase()}`} />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {rules.region!.options!.map(option => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ) : rules?.region ? (
+          textField('state', rules.region.label, 'address-level1')
+        ) : null}
+        {textField('zipCode', rules?.postalCode.label ?? 'Postal code', 'postal-code', rules?.postalCode.example)}
+      </div>
+    </div>
+  )
+}
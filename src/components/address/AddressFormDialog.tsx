@@ -0,0 +1,97 @@
+import { useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Form, FormControl, FormField, FormItem, FormLabel } from '@/components/ui/form'
+import { AddressFields } from '@/components/address/AddressFields'
+import { EMPTY_ADDRESS, addressSchema } from '@/lib/address'
+import { toAddress, type AddressDefault } from '@/lib/address-book'
+import type { Address, SavedAddress } from '@/types'
+
+const addressFormSchema = addressSchema.and(z.object({
+  defaultShipping: z.boolean(),
+  defaultBilling: z.boolean()
+}))
+
+type AddressFormValues = z.infer<typeof addressFormSchema>
+
+interface AddressFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // The address being edited; a new one is added when unset
+  address?: SavedAddress | null
+  onSubmit: (address: Address, defaults: AddressDefault[]) => Promise<void>
+}
+
+export function AddressFormDialog({ open, onOpenChange, address, onSubmit }: AddressFormDialogProps) {
+  const form = useForm<AddressFormValues>({
+    resolver: zodResolver(addressFormSchema),
+    defaultValues: { ...EMPTY_ADDRESS, defaultShipping: false, defaultBilling: false }
+  })
+  const { reset, formState } = form
+
+  // Start from the address being edited each time the dialog opens
+  useEffect(() => {
+    if (!open) return
+    reset({
+      ...(address ? toAddress(address) : EMPTY_ADDRESS),
+      defaultShipping: address?.isDefaultShipping ?? false,
+      defaultBilling: address?.isDefaultBilling ?? false
+    })
+  }, [open, address, reset])
+
+  const handleSubmit = async ({ defaultShipping, defaultBilling, ...values }: AddressFormValues) => {
+    const defaults: AddressDefault[] = []
+    if (defaultShipping) defaults.push('shipping')
+    if (defaultBilling) defaults.push('billing')
+    await onSubmit(values, defaults)
+  }
+
+  const defaultCheckbox = (name: 'defaultShipping' | 'defaultBilling', label: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex items-center gap-2 space-y-0">
+          <FormControl>
+            <Checkbox checked={field.value} onCheckedChange={(state) => field.onChange(state === true)} />
+          </FormControl>
+          <FormLabel className="font-normal">{label}</FormLabel>
+        </FormItem>
+      )}
+    />
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{address ? 'Edit address' : 'Add a new address'}</DialogTitle>
+          <DialogDescription>Addresses are checked against the format of their country.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <AddressFields control={form.control} />
+            <div className="space-y-2">
+              {defaultCheckbox('defaultShipping', 'Use as my default shipping address')}
+              {defaultCheckbox('defaultBilling', 'Use as my default billing address')}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button
+                type="submit"
+                disabled={formState.isSubmitting}
+                className="bg-amazon-orange hover:bg-orange-600 text-white"
+              >
+                {address ? 'Save changes' : 'Add address'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
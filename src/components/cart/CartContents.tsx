@@ -0,0 +1,299 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { Plus, Minus, Trash2, ShoppingBag, AlertTriangle, TrendingDown, TrendingUp } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { PriceSummary } from '@/components/cart/PriceSummary'
+import { PromoCodeForm } from '@/components/cart/PromoCodeForm'
+import { blink } from '@/blink/client'
+import type { Cart } from '@/hooks/use-cart'
+import { useCartPricing } from '@/hooks/use-cart-pricing'
+import { getPriceChange } from '@/lib/cart'
+import { getAvailableStock, getCartLineIssue, isLowStock } from '@/lib/stock'
+import type { Product } from '@/types'
+
+interface CartContentsProps {
+  cart: Cart
+  onCheckout: () => void
+  onContinueShopping: () => void
+}
+
+export function CartContents({ cart, onCheckout, onContinueShopping }: CartContentsProps) {
+  const { cartItems, savedItems, updateQuantity, removeItem, saveForLater, moveToCart, acceptPrice, refreshProducts } = cart
+  const [cartProducts, setCartProducts] = useState<Record<string, Product>>({})
+  const [isLoading, setIsLoading] = useState(false)
+
+  // Only a new product in either list needs another fetch, not quantity changes
+  const productIdsKey = useMemo(
+    () => [...new Set([...cartItems, ...savedItems].map(item => item.productId))].sort().join(','),
+    [cartItems, savedItems]
+  )
+
+  const loadCartProducts = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const productIds = productIdsKey.split(',')
+      const products: Product[] = await blink.db.products.list({
+        where: {
+          id: { in: productIds }
+        }
+      })
+
+      const productMap = products.reduce((acc, product) => {
+        acc[product.id] = product
+        return acc
+      }, {} as Record<string, Product>)
+
+      setCartProducts(productMap)
+      refreshProducts(products)
+    } catch (error) {
+      console.error('Failed to load cart products:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [productIdsKey, refreshProducts])
+
+  // Loading on mount re-checks stock every time the cart is opened
+  useEffect(() => {
+    if (productIdsKey) {
+      loadCartProducts()
+    }
+  }, [productIdsKey, loadCartProducts])
+
+  const getCartProduct = useCallback((productId: string) => cartProducts[productId], [cartProducts])
+  const { breakdown, couponResult } = useCartPricing(cart, getCartProduct)
+  const lineTotals = new Map(breakdown.lines.map(line => [line.itemId, line.total]))
+  const hasStockIssues = cartItems.some(item => getCartLineIssue(item, cartProducts[item.productId]))
+  // A higher price has to be accepted before it is charged; a lower one just applies
+  const hasPriceIncreases = cartItems.some(
+    item => getPriceChange(item, cartProducts[item.productId])?.type === 'increase'
+  )
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Cart Items */}
+      <div className="flex-1 overflow-y-auto py-4">
+        {isLoading && Object.keys(cartProducts).length === 0 ? (
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="flex gap-3 p-3 border rounded-lg">
+                <div className="w-16 h-16 bg-gray-200 rounded animate-pulse" />
+                <div className="flex-1 space-y-2">
+                  <div className="h-4 bg-gray-200 rounded animate-pulse" />
+                  <div className="h-3 bg-gray-200 rounded animate-pulse w-2/3" />
+                  <div className="h-4 bg-gray-200 rounded animate-pulse w-1/3" />
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : cartItems.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-center">
+            <ShoppingBag className="h-12 w-12 text-gray-400 mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Your cart is empty</h3>
+            <p className="text-gray-500 mb-4">Add some products to get started</p>
+            <Button onClick={onContinueShopping} className="bg-amazon-orange hover:bg-orange-600">
+              Continue Shopping
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {cartItems.map((item) => {
+              const product = cartProducts[item.productId]
+              if (!product) return null
+
+              const issue = getCartLineIssue(item, product)
+              const available = getAvailableStock(product)
+              const priceChange = getPriceChange(item, product)
+
+              return (
+                <div
+                  key={item.id}
+                  className={`flex gap-3 p-3 border rounded-lg ${issue || priceChange?.type === 'increase' ? 'border-red-300 bg-red-50' : ''}`}
+                >
+                  <img
+                    src={product.imageUrl}
+                    alt={product.title}
+                    className="w-16 h-16 object-cover rounded"
+                  />
+                  <div className="flex-1">
+                    <h4 className="font-medium text-sm line-clamp-2 mb-1">
+                      {product.title}
+                    </h4>
+                    <p className="text-sm text-gray-600 mb-2">{product.brand}</p>
+                    {issue?.type === 'out-of-stock' && (
+                      <div className="flex items-start gap-1 text-sm text-red-700 mb-2">
+                        <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                        <span>This item is now out of stock. Remove it to continue.</span>
+                      </div>
+                    )}
+                    {issue?.type === 'insufficient-stock' && (
+                      <div className="flex items-start gap-1 text-sm text-red-700 mb-2">
+                        <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                        <span>
+                          Only {issue.available} left in stock.{' '}
+                          <button
+                            onClick={() => updateQuantity(item.id, issue.available)}
+                            className="font-medium underline"
+                          >
+                            Change quantity to {issue.available}
+                          </button>
+                        </span>
+                      </div>
+                    )}
+                    {priceChange?.type === 'drop' && (
+                      <div className="flex items-start gap-1 text-sm text-green-700 mb-2">
+                        <TrendingDown className="h-4 w-4 mt-0.5 shrink-0" />
+                        <span>Price dropped from ${priceChange.previousPrice.toFixed(2)}</span>
+                      </div>
+                    )}
+                    {priceChange?.type === 'increase' && (
+                      <div className="flex items-start gap-1 text-sm text-red-700 mb-2">
+                        <TrendingUp className="h-4 w-4 mt-0.5 shrink-0" />
+                        <span>
+                          Price increased from ${priceChange.previousPrice.toFixed(2)}.{' '}
+                          <button
+                            onClick={() => acceptPrice(item.id)}
+                            className="font-medium underline"
+                          >
+                            Accept new price
+                          </button>
+                        </span>
+                      </div>
+                    )}
+                    {!issue && isLowStock(product) && (
+                      <p className="text-xs text-red-600 mb-2">Only {available} left in stock - order soon.</p>
+                    )}
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                        >
+                          <Minus className="h-3 w-3" />
+                        </Button>
+                        <span className="text-sm font-medium w-8 text-center">
+                          {item.quantity}
+                        </span>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                          disabled={item.quantity >= available}
+                        >
+                          <Plus className="h-3 w-3" />
+                        </Button>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 text-red-600 hover:text-red-700"
+                        onClick={() => removeItem(item.id)}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                    <div className="flex items-center justify-between mt-2">
+                      <button
+                        onClick={() => saveForLater(item.id)}
+                        className="text-xs text-amazon-blue hover:underline"
+                      >
+                        Save for later
+                      </button>
+                      <span className="font-bold text-lg">
+                        ${(lineTotals.get(item.id) ?? 0).toFixed(2)}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        {/* Saved for Later */}
+        {savedItems.length > 0 && (
+          <div className="mt-6">
+            <h3 className="font-medium mb-3">Saved for later ({savedItems.length} items)</h3>
+            <div className="space-y-4">
+              {savedItems.map((item) => {
+                const product = cartProducts[item.productId]
+                if (!product) return null
+
+                const isAvailable = getAvailableStock(product) > 0
+
+                return (
+                  <div key={item.id} className="flex gap-3 p-3 border rounded-lg">
+                    <img
+                      src={product.imageUrl}
+                      alt={product.title}
+                      className="w-16 h-16 object-cover rounded"
+                    />
+                    <div className="flex-1">
+                      <h4 className="font-medium text-sm line-clamp-2 mb-1">
+                        {product.title}
+                      </h4>
+                      <p className="text-sm font-bold mb-2">${product.price.toFixed(2)}</p>
+                      {!isAvailable && (
+                        <p className="text-xs text-red-600 mb-2">Currently unavailable</p>
+                      )}
+                      <div className="flex items-center gap-3 text-xs">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7"
+                          onClick={() => moveToCart(item.id)}
+                          disabled={!isAvailable}
+                        >
+                          Move to cart
+                        </Button>
+                        <button
+                          onClick={() => removeItem(item.id)}
+                          className="text-red-600 hover:underline"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Cart Summary */}
+      {cartItems.length > 0 && (
+        <div className="border-t pt-4 space-y-4">
+          <PromoCodeForm cart={cart} couponResult={couponResult} />
+          <PriceSummary breakdown={breakdown} />
+
+          <div className="space-y-2">
+            {hasStockIssues && (
+              <p className="text-sm text-red-700">Some items have changed in stock. Update them to check out.</p>
+            )}
+            {hasPriceIncreases && (
+              <p className="text-sm text-red-700">Some prices have gone up. Accept the new prices to check out.</p>
+            )}
+            <Button
+              className="w-full bg-amazon-orange hover:bg-orange-600 text-white"
+              size="lg"
+              onClick={onCheckout}
+              disabled={hasStockIssues || hasPriceIncreases}
+            >
+              Proceed to Checkout
+            </Button>
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={onContinueShopping}
+            >
+              Continue Shopping
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+import { Separator } from '@/components/ui/separator'
+import type { PriceBreakdown } from '@/lib/pricing'
+
+interface PriceSummaryProps {
+  breakdown: PriceBreakdown
+}
+
+export function PriceSummary({ breakdown }: PriceSummaryProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-sm">
+        <span>Subtotal ({breakdown.itemCount} items)</span>
+        <span>${breakdown.subtotal.toFixed(2)}</span>
+      </div>
+      <div className="flex justify-between text-sm">
+        <span>Shipping ({breakdown.shippingSpeed.label})</span>
+        {breakdown.shipping === 0 ? (
+          <span className="text-green-600">FREE</span>
+        ) : (
+          <span>${breakdown.shipping.toFixed(2)}</span>
+        )}
+      </div>
+      {breakdown.discounts.map((discount) => (
+        <div key={discount.label} className="flex justify-between text-sm text-green-700">
+          <span>{discount.label}</span>
+          <span>-${discount.amount.toFixed(2)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between text-sm">
+        <span>Estimated tax</span>
+        {breakdown.hasDestination ? (
+          <span>${breakdown.tax.toFixed(2)}</span>
+        ) : (
+          <span className="text-gray-500">Calculated at checkout</span>
+        )}
+      </div>
+      {breakdown.amountToFreeShipping > 0 && (
+        <p className="text-xs text-gray-600">
+          Add ${breakdown.amountToFreeShipping.toFixed(2)} more for FREE shipping.
+        </p>
+      )}
+      <Separator />
+      <div className="flex justify-between text-lg font-bold">
+        <span>Total</span>
+        <span>${breakdown.total.toFixed(2)}</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+import { useState } from 'react'
+import { AlertTriangle, Tag, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import type { Cart } from '@/hooks/use-cart'
+import type { CouponResult } from '@/lib/coupons'
+
+interface PromoCodeFormProps {
+  cart: Cart
+  // How the applied coupon fares against the cart right now
+  couponResult: CouponResult | null
+}
+
+export function PromoCodeForm({ cart, couponResult }: PromoCodeFormProps) {
+  const { appliedCoupon, applyCoupon, removeCoupon } = cart
+  const [code, setCode] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isApplying, setIsApplying] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsApplying(true)
+    const reason = await applyCoupon(code)
+    setIsApplying(false)
+    setError(reason)
+    if (!reason) setCode('')
+  }
+
+  if (appliedCoupon) {
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center justify-between text-sm">
+          <span className="flex items-center gap-1 font-medium">
+            <Tag className="h-4 w-4 text-green-700" />
+            {appliedCoupon.coupon.code}
+          </span>
+          <button
+            onClick={removeCoupon}
+            aria-label={`Remove promo code ${appliedCoupon.coupon.code}`}
+            className="text-gray-500 hover:text-gray-800"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+        {couponResult && !couponResult.ok && (
+          <p className="flex items-start gap-1 text-xs text-red-700">
+            <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+            <span>{couponResult.reason}</span>
+          </p>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-1">
+      <div className="flex gap-2">
+        <Input
+          value={code}
+          onChange={(e) => {
+            setCode(e.target.value)
+            setError(null)
+          }}
+          placeholder="Promo code"
+          aria-label="Promo code"
+          aria-invalid={error !== null}
+          className="h-8"
+        />
+        <Button type="submit" variant="outline" size="sm" className="h-8" disabled={isApplying || !code.trim()}>
+          {isApplying ? 'Applying...' : 'Apply'}
+        </Button>
+      </div>
+      {error && (
+        <p role="alert" className="text-xs text-red-700">{error}</p>
+      )}
+    </form>
+  )
+}
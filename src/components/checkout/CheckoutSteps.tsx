@@ -0,0 +1,46 @@
+import { Check } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { CHECKOUT_STEPS } from '@/lib/checkout'
+
+interface CheckoutStepsProps {
+  currentStep: number
+  // Only steps already completed can be revisited
+  onStepSelect: (step: number) => void
+}
+
+export function CheckoutSteps({ currentStep, onStepSelect }: CheckoutStepsProps) {
+  return (
+    <ol className="flex flex-wrap gap-2 sm:gap-4 text-sm">
+      {CHECKOUT_STEPS.map((step, index) => {
+        const isDone = index < currentStep
+        const isCurrent = index === currentStep
+
+        return (
+          <li key={step.id}>
+            <button
+              type="button"
+              disabled={!isDone}
+              onClick={() => onStepSelect(index)}
+              aria-current={isCurrent ? 'step' : undefined}
+              className={cn(
+                'flex items-center gap-2 disabled:cursor-default',
+                isCurrent ? 'font-semibold text-gray-900' : isDone ? 'text-amazon-blue hover:underline' : 'text-gray-400'
+              )}
+            >
+              <span
+                className={cn(
+                  'flex h-6 w-6 items-center justify-center rounded-full border text-xs',
+                  isCurrent && 'border-amazon-orange bg-amazon-orange text-white',
+                  isDone && 'border-green-600 bg-green-600 text-white'
+                )}
+              >
+                {isDone ? <Check className="h-3 w-3" /> : index + 1}
+              </span>
+              {step.label}
+            </button>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
@@ -0,0 +1,75 @@
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Button } from '@/components/ui/button'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import type { ShippingSpeed } from '@/config/pricing'
+import { deliverySchema, type DeliveryValues } from '@/lib/checkout'
+
+export interface ShippingQuote {
+  speed: ShippingSpeed
+  cost: number
+}
+
+interface DeliveryStepProps {
+  quotes: ShippingQuote[]
+  defaultValues: DeliveryValues
+  onSubmit: (values: DeliveryValues) => void
+  onBack: () => void
+}
+
+function formatBusinessDays([min, max]: number[]) {
+  if (min === max) return `${min} business day${min === 1 ? '' : 's'}`
+  return `${min}-${max} business days`
+}
+
+export function DeliveryStep({ quotes, defaultValues, onSubmit, onBack }: DeliveryStepProps) {
+  const form = useForm<DeliveryValues>({
+    resolver: zodResolver(deliverySchema),
+    defaultValues
+  })
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="shippingSpeed"
+          render={({ field }) => (
+            <FormItem>
+              <FormControl>
+                <RadioGroup value={field.value} onValueChange={field.onChange} className="space-y-2">
+                  {quotes.map(({ speed, cost }) => (
+                    <FormItem key={speed.id} className="flex items-center gap-3 space-y-0 rounded-lg border p-3">
+                      <FormControl>
+                        <RadioGroupItem value={speed.id} />
+                      </FormControl>
+                      <FormLabel className="flex flex-1 items-center justify-between font-normal">
+                        <span>
+                          <span className="font-medium">{speed.label}</span>
+                          <span className="block text-xs text-gray-600">{formatBusinessDays(speed.businessDays)}</span>
+                        </span>
+                        {cost === 0 ? (
+                          <span className="text-green-600">FREE</span>
+                        ) : (
+                          <span>${cost.toFixed(2)}</span>
+                        )}
+                      </FormLabel>
+                    </FormItem>
+                  ))}
+                </RadioGroup>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" onClick={onBack}>Back</Button>
+          <Button type="submit" className="bg-amazon-orange hover:bg-orange-600 text-white">
+            Continue
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,118 @@
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { AddressFields } from '@/components/address/AddressFields'
+import { paymentSchema, type PaymentValues } from '@/lib/checkout'
+import { getPaymentProvider } from '@/lib/payments'
+
+interface PaymentStepProps {
+  defaultValues: PaymentValues
+  onSubmit: (values: PaymentValues) => void
+  onBack: () => void
+}
+
+export function PaymentStep({ defaultValues, onSubmit, onBack }: PaymentStepProps) {
+  const { testCards } = getPaymentProvider()
+  const form = useForm<PaymentValues>({
+    resolver: zodResolver(paymentSchema),
+    defaultValues
+  })
+  const billingSameAsShipping = form.watch('billingSameAsShipping')
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <div className="space-y-4">
+          <FormField
+            control={form.control}
+            name="cardName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name on card</FormLabel>
+                <FormControl>
+                  <Input autoComplete="cc-name" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="cardNumber"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Card number</FormLabel>
+                <FormControl>
+                  <Input autoComplete="cc-number" inputMode="numeric" placeholder="1234 5678 9012 3456" {...field} />
+                </FormControl>
+                <FormMessage />
+                {testCards && (
+                  <FormDescription>
+                    Test cards: {testCards.map(card => `${card.number} (${card.description.toLowerCase()})`).join(', ')}
+                  </FormDescription>
+                )}
+              </FormItem>
+            )}
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="expiry"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Expiry date</FormLabel>
+                  <FormControl>
+                    <Input autoComplete="cc-exp" placeholder="MM/YY" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="cvc"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Security code</FormLabel>
+                  <FormControl>
+                    <Input autoComplete="cc-csc" inputMode="numeric" placeholder="CVC" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        </div>
+
+        <FormField
+          control={form.control}
+          name="billingSameAsShipping"
+          render={({ field }) => (
+            <FormItem className="flex items-center gap-2 space-y-0">
+              <FormControl>
+                <Checkbox checked={field.value} onCheckedChange={(state) => field.onChange(state === true)} />
+              </FormControl>
+              <FormLabel className="font-normal">Billing address is the same as shipping</FormLabel>
+            </FormItem>
+          )}
+        />
+        {!billingSameAsShipping && (
+          <div className="space-y-2">
+            <h3 className="font-medium">Billing address</h3>
+            <AddressFields control={form.control} prefix="billingAddress." />
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" onClick={onBack}>Back</Button>
+          <Button type="submit" className="bg-amazon-orange hover:bg-orange-600 text-white">
+            Continue
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
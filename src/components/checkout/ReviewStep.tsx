@@ -0,0 +1,83 @@
+import { Button } from '@/components/ui/button'
+import { formatAddress } from '@/lib/address'
+import type { PriceBreakdown } from '@/lib/pricing'
+import type { Address, Product } from '@/types'
+
+interface ReviewStepProps {
+  breakdown: PriceBreakdown
+  getProduct: (productId: string) => Product | undefined
+  shippingAddress: Address
+  billingAddress: Address
+  paymentMethod: string
+  isPlacing: boolean
+  onEditStep: (step: number) => void
+  onPlaceOrder: () => void
+  onBack: () => void
+}
+
+function ReviewSection({ title, onEdit, children }: { title: string; onEdit: () => void; children: React.ReactNode }) {
+  return (
+    <div className="flex items-start justify-between gap-4 border-b pb-4">
+      <div>
+        <h3 className="font-medium">{title}</h3>
+        <div className="text-sm text-gray-600">{children}</div>
+      </div>
+      <button type="button" onClick={onEdit} className="text-sm text-amazon-blue hover:underline">
+        Change
+      </button>
+    </div>
+  )
+}
+
+export function ReviewStep({
+  breakdown,
+  getProduct,
+  shippingAddress,
+  billingAddress,
+  paymentMethod,
+  isPlacing,
+  onEditStep,
+  onPlaceOrder,
+  onBack
+}: ReviewStepProps) {
+  return (
+    <div className="space-y-6">
+      <ReviewSection title="Shipping address" onEdit={() => onEditStep(0)}>
+        <p>{shippingAddress.name}</p>
+        <p>{formatAddress(shippingAddress)}</p>
+      </ReviewSection>
+      <ReviewSection title="Delivery" onEdit={() => onEditStep(1)}>
+        {breakdown.shippingSpeed.label} shipping
+      </ReviewSection>
+      <ReviewSection title="Payment" onEdit={() => onEditStep(2)}>
+        <p>{paymentMethod}</p>
+        <p>Billing to {formatAddress(billingAddress)}</p>
+      </ReviewSection>
+
+      <div className="space-y-3">
+        {breakdown.lines.map((line) => {
+          const product = getProduct(line.productId)
+          return (
+            <div key={line.itemId} className="flex items-center gap-3 text-sm">
+              {product && <img src={product.imageUrl} alt="" className="h-12 w-12 rounded object-cover" />}
+              <span className="flex-1 line-clamp-2">{product?.title}</span>
+              <span className="text-gray-600">Qty {line.quantity}</span>
+              <span className="w-20 text-right font-medium">${line.total.toFixed(2)}</span>
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" onClick={onBack} disabled={isPlacing}>Back</Button>
+        <Button
+          onClick={onPlaceOrder}
+          disabled={isPlacing}
+          className="flex-1 bg-amazon-orange hover:bg-orange-600 text-white"
+        >
+          {isPlacing ? 'Placing your order...' : `Place your order - $${breakdown.total.toFixed(2)}`}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Form, FormControl, FormField, FormItem, FormLabel } from '@/components/ui/form'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { AddressFields } from '@/components/address/AddressFields'
+import { addressSchema, formatAddress } from '@/lib/address'
+import { toAddress } from '@/lib/address-book'
+import type { Address, SavedAddress } from '@/types'
+
+const NEW_ADDRESS = 'new'
+
+const newAddressSchema = addressSchema.and(z.object({
+  saveToAddressBook: z.boolean()
+}))
+
+type NewAddressValues = z.infer<typeof newAddressSchema>
+
+interface ShippingAddressStepProps {
+  savedAddresses: SavedAddress[]
+  // The saved address picked until the shopper chooses another
+  initialAddressId: string | null
+  defaultValues: Address
+  onSubmit: (address: Address, saveToAddressBook: boolean) => void
+}
+
+export function ShippingAddressStep({ savedAddresses, initialAddressId, defaultValues, onSubmit }: ShippingAddressStepProps) {
+  const [choice, setChoice] = useState<string | null>(null)
+  const selected = choice ?? initialAddressId ?? NEW_ADDRESS
+  const savedAddress = savedAddresses.find(address => address.id === selected)
+
+  const form = useForm<NewAddressValues>({
+    resolver: zodResolver(newAddressSchema),
+    defaultValues: { ...defaultValues, saveToAddressBook: true }
+  })
+
+  return (
+    <div className="space-y-6">
+      {savedAddresses.length > 0 && (
+        <RadioGroup value={selected} onValueChange={setChoice} className="space-y-2">
+          {savedAddresses.map((address) => (
+            <div key={address.id} className="flex items-start gap-3 rounded-lg border p-3">
+              <RadioGroupItem value={address.id} id={`address-${address.id}`} className="mt-1" />
+              <Label htmlFor={`address-${address.id}`} className="flex-1 font-normal">
+                <span className="font-medium">{address.name}</span>
+                <span className="block text-sm text-gray-600">{formatAddress(address)}</span>
+              </Label>
+            </div>
+          ))}
+          <div className="flex items-center gap-3 rounded-lg border p-3">
+            <RadioGroupItem value={NEW_ADDRESS} id="address-new" />
+            <Label htmlFor="address-new" className="font-normal">Use a new address</Label>
+          </div>
+        </RadioGroup>
+      )}
+
+      {savedAddress ? (
+        <Button
+          onClick={() => onSubmit(toAddress(savedAddress), false)}
+          className="bg-amazon-orange hover:bg-orange-600 text-white"
+        >
+          Deliver to this address
+        </Button>
+      ) : (
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(({ saveToAddressBook, ...address }) => onSubmit(address, saveToAddressBook))}
+            className="space-y-6"
+          >
+            <AddressFields control={form.control} />
+            <FormField
+              control={form.control}
+              name="saveToAddressBook"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Checkbox checked={field.value} onCheckedChange={(state) => field.onChange(state === true)} />
+                  </FormControl>
+                  <FormLabel className="font-normal">Save this address to my address book</FormLabel>
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="bg-amazon-orange hover:bg-orange-600 text-white">
+              Deliver to this address
+            </Button>
+          </form>
+        </Form>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+import { ShieldCheck } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+
+interface ThreeDSecureDialogProps {
+  open: boolean
+  amount: number
+  paymentMethod: string
+  isCompleting: boolean
+  onComplete: (passed: boolean) => void
+}
+
+// Stands in for the bank's verification page; closing it counts as failing
+export function ThreeDSecureDialog({ open, amount, paymentMethod, isCompleting, onComplete }: ThreeDSecureDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && !isCompleting && onComplete(false)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-green-700" />
+            Verify your payment
+          </DialogTitle>
+          <DialogDescription>
+            Your bank wants to confirm a payment of ${amount.toFixed(2)} with your {paymentMethod}.
+          </DialogDescription>
+        </DialogHeader>
+        <p className="text-sm text-gray-600">
+          This is a test verification. Choose whether it passes or fails.
+        </p>
+        <DialogFooter>
+          <Button variant="outline" disabled={isCompleting} onClick={() => onComplete(false)}>
+            Fail verification
+          </Button>
+          <Button
+            disabled={isCompleting}
+            onClick={() => onComplete(true)}
+            className="bg-amazon-orange hover:bg-orange-600 text-white"
+          >
+            Pass verification
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
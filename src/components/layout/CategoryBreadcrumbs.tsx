@@ -0,0 +1,57 @@
+import { Fragment } from 'react'
+import { Link } from 'react-router-dom'
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator
+} from '@/components/ui/breadcrumb'
+import type { Category } from '@/types'
+
+interface CategoryBreadcrumbsProps {
+  path: Category[]
+  // Set when the trail ends on a page below the last category, e.g. a product
+  currentPage?: string
+}
+
+export function CategoryBreadcrumbs({ path, currentPage }: CategoryBreadcrumbsProps) {
+  return (
+    <Breadcrumb className="mb-4">
+      <BreadcrumbList>
+        <BreadcrumbItem>
+          <BreadcrumbLink asChild>
+            <Link to="/">All</Link>
+          </BreadcrumbLink>
+        </BreadcrumbItem>
+        {path.map((category, index) => {
+          const isCurrent = !currentPage && index === path.length - 1
+
+          return (
+            <Fragment key={category.id}>
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>
+                {isCurrent ? (
+                  <BreadcrumbPage>{category.name}</BreadcrumbPage>
+                ) : (
+                  <BreadcrumbLink asChild>
+                    <Link to={`/category/${category.slug}`}>{category.name}</Link>
+                  </BreadcrumbLink>
+                )}
+              </BreadcrumbItem>
+            </Fragment>
+          )
+        })}
+        {currentPage && (
+          <>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbPage className="line-clamp-1">{currentPage}</BreadcrumbPage>
+            </BreadcrumbItem>
+          </>
+        )}
+      </BreadcrumbList>
+    </Breadcrumb>
+  )
+}
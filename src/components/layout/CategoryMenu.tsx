@@ -0,0 +1,194 @@
+import { useState } from 'react'
+import { ChevronDown } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import {
+  NavigationMenu,
+  NavigationMenuContent,
+  NavigationMenuItem,
+  NavigationMenuLink,
+  NavigationMenuList,
+  NavigationMenuTrigger
+} from '@/components/ui/navigation-menu'
+import { cn } from '@/lib/utils'
+import type { CategoryNode } from '@/lib/categories'
+
+interface CategoryMenuProps {
+  categories: CategoryNode[]
+  onCategorySelect: (slug: string) => void
+}
+
+function CategoryThumbnail({ category, className }: { category: CategoryNode; className?: string }) {
+  if (!category.imageUrl) {
+    return <div className={cn('rounded bg-gray-100', className)} />
+  }
+
+  return (
+    <img
+      src={category.imageUrl}
+      alt=""
+      className={cn('rounded object-cover bg-gray-100', className)}
+      loading="lazy"
+    />
+  )
+}
+
+// Everything below the second level, nested as deep as the tree goes
+function MegaMenuDescendants({ categories, className, onCategorySelect }: CategoryMenuProps & { className?: string }) {
+  if (categories.length === 0) return null
+
+  return (
+    <ul className={cn('space-y-1', className)}>
+      {categories.map((category) => (
+        <li key={category.id}>
+          <NavigationMenuLink asChild>
+            <button
+              type="button"
+              className="text-xs text-muted-foreground hover:text-foreground hover:underline"
+              onClick={() => onCategorySelect(category.slug)}
+            >
+              {category.name}
+            </button>
+          </NavigationMenuLink>
+          <MegaMenuDescendants
+            categories={category.children}
+            className="pl-3 pt-1"
+            onCategorySelect={onCategorySelect}
+          />
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export function CategoryMegaMenu({ categories, onCategorySelect }: CategoryMenuProps) {
+  const itemClassName = 'h-auto bg-transparent p-2 text-white hover:bg-slate-700 hover:text-white focus:bg-slate-700 focus:text-white data-[state=open]:bg-slate-700 data-[state=open]:text-white'
+
+  return (
+    <NavigationMenu className="hidden md:flex">
+      <NavigationMenuList className="space-x-2">
+        {categories.map((category) => (
+          <NavigationMenuItem key={category.id}>
+            {category.children.length === 0 ? (
+              <NavigationMenuLink asChild>
+                <Button
+                  variant="ghost"
+                  className={itemClassName}
+                  onClick={() => onCategorySelect(category.slug)}
+                >
+                  {category.name}
+                </Button>
+              </NavigationMenuLink>
+            ) : (
+              <>
+                <NavigationMenuTrigger className={itemClassName}>
+                  {category.name}
+                </NavigationMenuTrigger>
+                <NavigationMenuContent>
+                  <div className="w-[560px] p-4 space-y-4">
+                    <NavigationMenuLink asChild>
+                      <button
+                        type="button"
+                        className="flex w-full items-center gap-3 rounded-md p-2 text-left hover:bg-accent"
+                        onClick={() => onCategorySelect(category.slug)}
+                      >
+                        <CategoryThumbnail category={category} className="h-12 w-12" />
+                        <div>
+                          <div className="font-semibold">Shop all {category.name}</div>
+                          {category.description && (
+                            <p className="text-xs text-muted-foreground line-clamp-1">{category.description}</p>
+                          )}
+                        </div>
+                      </button>
+                    </NavigationMenuLink>
+
+                    {/* Subcategories */}
+                    <ul className="grid grid-cols-2 gap-2">
+                      {category.children.map((child) => (
+                        <li key={child.id}>
+                          <NavigationMenuLink asChild>
+                            <button
+                              type="button"
+                              className="flex w-full items-center gap-3 rounded-md p-2 text-left hover:bg-accent"
+                              onClick={() => onCategorySelect(child.slug)}
+                            >
+                              <CategoryThumbnail category={child} className="h-10 w-10" />
+                              <span className="text-sm font-medium">{child.name}</span>
+                            </button>
+                          </NavigationMenuLink>
+                          <MegaMenuDescendants
+                            categories={child.children}
+                            className="pl-[3.25rem]"
+                            onCategorySelect={onCategorySelect}
+                          />
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </NavigationMenuContent>
+              </>
+            )}
+          </NavigationMenuItem>
+        ))}
+      </NavigationMenuList>
+    </NavigationMenu>
+  )
+}
+
+function CategoryListItem({ category, depth, onCategorySelect }: { category: CategoryNode; depth: number } & Pick<CategoryMenuProps, 'onCategorySelect'>) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  const categoryButton = (
+    <Button
+      variant="ghost"
+      className="flex-1 justify-start gap-3"
+      style={{ paddingLeft: `${depth + 1}rem` }}
+      onClick={() => onCategorySelect(category.slug)}
+    >
+      <CategoryThumbnail category={category} className="h-6 w-6" />
+      {category.name}
+    </Button>
+  )
+
+  if (category.children.length === 0) {
+    return <div className="flex">{categoryButton}</div>
+  }
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <div className="flex">
+        {categoryButton}
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="icon" aria-label={`Show ${category.name} subcategories`}>
+            <ChevronDown className={cn('h-4 w-4 transition-transform', isOpen && 'rotate-180')} />
+          </Button>
+        </CollapsibleTrigger>
+      </div>
+      <CollapsibleContent className="space-y-1">
+        {category.children.map((child) => (
+          <CategoryListItem
+            key={child.id}
+            category={child}
+            depth={depth + 1}
+            onCategorySelect={onCategorySelect}
+          />
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
+
+export function CategoryList({ categories, onCategorySelect }: CategoryMenuProps) {
+  return (
+    <div className="space-y-1">
+      {categories.map((category) => (
+        <CategoryListItem
+          key={category.id}
+          category={category}
+          depth={0}
+          onCategorySelect={onCategorySelect}
+        />
+      ))}
+    </div>
+  )
+}
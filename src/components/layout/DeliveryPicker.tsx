@@ -0,0 +1,85 @@
+import { useNavigate } from 'react-router-dom'
+import { MapPin } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import { blink } from '@/blink/client'
+import type { AddressBook } from '@/hooks/use-address-book'
+import { formatShortAddress } from '@/lib/address'
+import type { User } from '@/types'
+
+interface DeliveryPickerProps {
+  user: User | null
+  addressBook: AddressBook
+}
+
+export function DeliveryPicker({ user, addressBook }: DeliveryPickerProps) {
+  const navigate = useNavigate()
+  const { addresses, deliveryAddress, selectDeliveryAddress } = addressBook
+
+  const label = (
+    <>
+      <MapPin className="h-4 w-4" />
+      <div className="text-left">
+        <div className="text-xs text-gray-300">
+          {deliveryAddress ? `Deliver to ${deliveryAddress.name.split(' ')[0]}` : 'Hello'}
+        </div>
+        <div className="text-sm font-medium">
+          {deliveryAddress ? formatShortAddress(deliveryAddress) : 'Select your address'}
+        </div>
+      </div>
+    </>
+  )
+
+  // Addresses belong to an account, so guests are asked to sign in first
+  if (!user) {
+    return (
+      <Button
+        variant="ghost"
+        className="hidden md:flex items-center gap-1 text-white hover:bg-slate-800 px-2"
+        onClick={() => blink.auth.login()}
+      >
+        {label}
+      </Button>
+    )
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" className="hidden md:flex items-center gap-1 text-white hover:bg-slate-800 px-2">
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-72">
+        <DropdownMenuLabel>Choose your delivery address</DropdownMenuLabel>
+        {addresses.length > 0 && (
+          <DropdownMenuRadioGroup value={deliveryAddress?.id} onValueChange={selectDeliveryAddress}>
+            {addresses.map((address) => (
+              <DropdownMenuRadioItem key={address.id} value={address.id}>
+                <div className="text-sm">
+                  <div className="font-medium">{address.name}</div>
+                  <div className="text-xs text-gray-600">
+                    {address.street}, {formatShortAddress(address)}
+                  </div>
+                </div>
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => navigate('/account/addresses')}>
+          {addresses.length > 0 ? 'Manage addresses' : 'Add an address'}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
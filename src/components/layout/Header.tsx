@@ -1,24 +1,52 @@
-import { useState, useEffect } from 'react'
-import { Search, ShoppingCart, Menu, User, MapPin, Heart } from 'lucide-react'
+import { useState, useEffect, useMemo } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { ShoppingCart, Menu, User, Heart } from 'lucide-react'
 import { Button } from '@/components/ui/button'
-import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet'
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import { CategoryList, CategoryMegaMenu } from '@/components/layout/CategoryMenu'
+import { DeliveryPicker } from '@/components/layout/DeliveryPicker'
+import { SearchBox } from '@/components/layout/SearchBox'
 import { blink } from '@/blink/client'
-import type { User as UserType, CartItem } from '@/types'
+import { buildCategoryTree } from '@/lib/categories'
+import type { AddressBook } from '@/hooks/use-address-book'
+import type { SearchHistory } from '@/hooks/use-search-history'
+import type { User as UserType, CartItem, Category } from '@/types'
 
 interface HeaderProps {
+  currentQuery: string
   onSearch: (query: string) => void
-  onCategorySelect: (category: string) => void
+  onCategorySelect: (slug: string) => void
+  categories: Category[]
   cartItems: CartItem[]
+  searchHistory: SearchHistory
+  addressBook: AddressBook
   onCartClick: () => void
 }
 
-export function Header({ onSearch, onCategorySelect, cartItems, onCartClick }: HeaderProps) {
+export function Header({
+  currentQuery,
+  onSearch,
+  onCategorySelect,
+  categories,
+  cartItems,
+  searchHistory,
+  addressBook,
+  onCartClick
+}: HeaderProps) {
+  const navigate = useNavigate()
   const [user, setUser] = useState<UserType | null>(null)
-  const [searchQuery, setSearchQuery] = useState('')
+  const [searchQuery, setSearchQuery] = useState(currentQuery)
   const [isLoading, setIsLoading] = useState(true)
+  const [isMenuOpen, setIsMenuOpen] = useState(false)
 
   useEffect(() => {
     const unsubscribe = blink.auth.onAuthStateChanged((state) => {
@@ -28,10 +56,10 @@ export function Header({ onSearch, onCategorySelect, cartItems, onCartClick }: H
     return unsubscribe
   }, [])
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault()
-    onSearch(searchQuery)
-  }
+  // Reflect the query from the URL, e.g. after a refresh or back navigation
+  useEffect(() => {
+    setSearchQuery(currentQuery)
+  }, [currentQuery])
 
   const handleSignOut = () => {
     blink.auth.logout()
@@ -39,37 +67,19 @@ export function Header({ onSearch, onCategorySelect, cartItems, onCartClick }: H
 
   const cartItemCount = cartItems.reduce((total, item) => total + item.quantity, 0)
 
-  const categories = [
-    'Electronics',
-    'Books',
-    'Clothing',
-    'Home & Garden',
-    'Sports & Outdoors'
-  ]
+  const categoryTree = useMemo(() => buildCategoryTree(categories), [categories])
 
-  if (isLoading) {
-    return (
-      <header className="bg-slate-900 text-white">
-        <div className="container mx-auto px-4 py-3">
-          <div className="flex items-center justify-center">
-            <div className="animate-pulse text-lg">Loading...</div>
-          </div>
-        </div>
-      </header>
-    )
+  const handleMenuCategorySelect = (slug: string) => {
+    setIsMenuOpen(false)
+    onCategorySelect(slug)
   }
 
-  if (!user) {
+  if (isLoading) {
     return (
       <header className="bg-slate-900 text-white">
         <div className="container mx-auto px-4 py-3">
           <div className="flex items-center justify-center">
-            <Button 
-              onClick={() => blink.auth.login()}
-              className="bg-amazon-orange hover:bg-orange-600 text-white"
-            >
-              Sign In to Continue
-            </Button>
+            <div className="animate-pulse text-lg">Loading...</div>
           </div>
         </div>
       </header>
@@ -82,90 +92,106 @@ export function Header({ onSearch, onCategorySelect, cartItems, onCartClick }: H
       <div className="container mx-auto px-4 py-3">
         <div className="flex items-center gap-4">
           {/* Mobile menu */}
-          <Sheet>
+          <Sheet open={isMenuOpen} onOpenChange={setIsMenuOpen}>
             <SheetTrigger asChild>
               <Button variant="ghost" size="icon" className="md:hidden text-white hover:bg-slate-800">
                 <Menu className="h-5 w-5" />
               </Button>
             </SheetTrigger>
-            <SheetContent side="left" className="w-80">
+            <SheetContent side="left" className="w-80 overflow-y-auto">
               <div className="py-4">
                 <h3 className="font-semibold mb-4">Categories</h3>
-                <div className="space-y-2">
-                  {categories.map((category) => (
-                    <Button
-                      key={category}
-                      variant="ghost"
-                      className="w-full justify-start"
-                      onClick={() => onCategorySelect(category)}
-                    >
-                      {category}
-                    </Button>
-                  ))}
-                </div>
+                <CategoryList categories={categoryTree} onCategorySelect={handleMenuCategorySelect} />
               </div>
             </SheetContent>
           </Sheet>
 
           {/* Logo */}
-          <div className="flex items-center gap-2">
+          <Link to="/" className="flex items-center gap-2">
             <div className="text-2xl font-bold">
               <span className="text-white">amazon</span>
               <span className="text-orange-400">.clone</span>
             </div>
-          </div>
+          </Link>
 
           {/* Delivery location */}
-          <div className="hidden md:flex items-center gap-1 text-sm">
-            <MapPin className="h-4 w-4" />
-            <div>
-              <div className="text-xs text-gray-300">Deliver to</div>
-              <div className="font-medium">New York 10001</div>
-            </div>
-          </div>
+          <DeliveryPicker user={user} addressBook={addressBook} />
 
           {/* Search bar */}
-          <form onSubmit={handleSearch} className="flex-1 max-w-2xl">
-            <div className="flex">
-              <Input
-                type="text"
-                placeholder="Search Amazon.clone"
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="rounded-r-none border-r-0 bg-white text-black"
-              />
-              <Button 
-                type="submit"
-                className="rounded-l-none bg-amazon-orange hover:bg-orange-600 px-4"
-              >
-                <Search className="h-4 w-4" />
-              </Button>
-            </div>
-          </form>
+          <div className="flex-1 max-w-2xl">
+            <SearchBox
+              value={searchQuery}
+              onValueChange={setSearchQuery}
+              categories={categories}
+              recentSearches={searchHistory.recentSearches}
+              onRemoveRecentSearch={searchHistory.removeRecentSearch}
+              onClearRecentSearches={searchHistory.clearRecentSearches}
+              onSearch={onSearch}
+              onProductSelect={(productId) => navigate(`/product/${productId}`)}
+              onCategorySelect={onCategorySelect}
+            />
+          </div>
 
           {/* Right side actions */}
           <div className="flex items-center gap-2">
-            {/* User account */}
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button variant="ghost" className="text-white hover:bg-slate-800 hidden md:flex">
-                  <User className="h-4 w-4 mr-1" />
-                  <div className="text-left">
-                    <div className="text-xs">Hello, {user.displayName || user.email}</div>
-                    <div className="text-sm font-medium">Account & Lists</div>
-                  </div>
-                </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="end">
-                <DropdownMenuItem>Your Account</DropdownMenuItem>
-                <DropdownMenuItem>Your Orders</DropdownMenuItem>
-                <DropdownMenuItem>Your Lists</DropdownMenuItem>
-                <DropdownMenuItem onClick={handleSignOut}>Sign Out</DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
+            {/* User account; guests can shop and sign in when they are ready */}
+            {!user ? (
+              <Button
+                variant="ghost"
+                className="text-white hover:bg-slate-800 hidden md:flex"
+                onClick={() => blink.auth.login()}
+              >
+                <User className="h-4 w-4 mr-1" />
+                <div className="text-left">
+                  <div className="text-xs">Hello, sign in</div>
+                  <div className="text-sm font-medium">Account & Lists</div>
+                </div>
+              </Button>
+            ) : (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" className="text-white hover:bg-slate-800 hidden md:flex">
+                    <User className="h-4 w-4 mr-1" />
+                    <div className="text-left">
+                      <div className="text-xs">Hello, {user.displayName || user.email}</div>
+                      <div className="text-sm font-medium">Account & Lists</div>
+                    </div>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => navigate('/account')}>Your Account</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => navigate('/orders')}>Your Orders</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => navigate('/account/addresses')}>Your Addresses</DropdownMenuItem>
+                  <DropdownMenuItem>Your Lists</DropdownMenuItem>
+                  {searchHistory.savedSearches.length > 0 && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuLabel>Saved Searches</DropdownMenuLabel>
+                      {searchHistory.savedSearches.map((savedSearch) => {
+                        const newMatches = searchHistory.newMatchCounts[savedSearch.id] ?? 0
+                        return (
+                          <DropdownMenuItem key={savedSearch.id} onClick={() => navigate(savedSearch.path)}>
+                            <span className="flex-1 truncate max-w-[220px]">{savedSearch.name}</span>
+                            {newMatches > 0 && (
+                              <Badge className="ml-2 bg-amazon-orange text-white">{newMatches} new</Badge>
+                            )}
+                          </DropdownMenuItem>
+                        )
+                      })}
+                      <DropdownMenuSeparator />
+                    </>
+                  )}
+                  <DropdownMenuItem onClick={handleSignOut}>Sign Out</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
 
             {/* Wishlist */}
-            <Button variant="ghost" className="text-white hover:bg-slate-800 hidden md:flex">
+            <Button
+              variant="ghost"
+              className="text-white hover:bg-slate-800 hidden md:flex"
+              onClick={() => navigate('/orders')}
+            >
               <Heart className="h-4 w-4 mr-1" />
               <div className="text-left">
                 <div className="text-xs">Returns</div>
@@ -202,16 +228,7 @@ export function Header({ onSearch, onCategorySelect, cartItems, onCartClick }: H
             >
               All
             </Button>
-            {categories.map((category) => (
-              <Button
-                key={category}
-                variant="ghost"
-                className="text-white hover:bg-slate-700 p-2 hidden md:inline-flex"
-                onClick={() => onCategorySelect(category)}
-              >
-                {category}
-              </Button>
-            ))}
+            <CategoryMegaMenu categories={categoryTree} onCategorySelect={onCategorySelect} />
           </div>
         </div>
       </div>
@@ -0,0 +1,257 @@
+import { useState, useMemo, useDeferredValue } from 'react'
+import { Command as CommandPrimitive } from 'cmdk'
+import { Search, Tag, LayoutGrid, AlertCircle, Clock, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Command, CommandGroup, CommandItem, CommandList } from '@/components/ui/command'
+import { useSearchSuggestions } from '@/hooks/use-search-suggestions'
+import { normalize, tokenize } from '@/lib/search'
+import { parseSearchQuery } from '@/lib/query-syntax'
+import { cn } from '@/lib/utils'
+import type { Category, SearchHistoryEntry } from '@/types'
+
+interface SearchBoxProps {
+  value: string
+  onValueChange: (value: string) => void
+  categories: Category[]
+  recentSearches: SearchHistoryEntry[]
+  onRemoveRecentSearch: (id: string) => void
+  onClearRecentSearches: () => void
+  onSearch: (query: string) => void
+  onProductSelect: (productId: string) => void
+  onCategorySelect: (slug: string) => void
+}
+
+// Bolds the start of every word that the query is a prefix of
+function HighlightedText({ text, queryTokens }: { text: string; queryTokens: string[] }) {
+  return (
+    <>
+      {text.split(/(\s+)/).map((word, index) => {
+        const normalizedWord = normalize(word)
+        const match = queryTokens.find(token => normalizedWord.startsWith(token))
+        if (!match || normalizedWord.length !== word.length) {
+          return <span key={index} className={match ? 'font-semibold' : undefined}>{word}</span>
+        }
+        return (
+          <span key={index}>
+            <span className="font-semibold">{word.slice(0, match.length)}</span>
+            {word.slice(match.length)}
+          </span>
+        )
+      })}
+    </>
+  )
+}
+
+export function SearchBox({
+  value,
+  onValueChange,
+  categories,
+  recentSearches,
+  onRemoveRecentSearch,
+  onClearRecentSearches,
+  onSearch,
+  onProductSelect,
+  onCategorySelect
+}: SearchBoxProps) {
+  const [isFocused, setIsFocused] = useState(false)
+  // Enter submits the typed text until the shopper arrows into the suggestions
+  const [hasNavigated, setHasNavigated] = useState(false)
+  const deferredValue = useDeferredValue(value)
+
+  // Qualifiers such as price:<150 narrow the results but are not suggestion text
+  const parsedQuery = useMemo(() => parseSearchQuery(deferredValue), [deferredValue])
+  const queryErrors = useMemo(() => parseSearchQuery(value).errors, [value])
+  const deferredQuery = parsedQuery.text
+
+  const suggestions = useSearchSuggestions(deferredQuery, categories)
+  const queryTokens = useMemo(() => tokenize(deferredQuery), [deferredQuery])
+
+  const hasSuggestions = suggestions.products.length > 0 ||
+    suggestions.brands.length > 0 ||
+    suggestions.categories.length > 0
+  const showErrors = isFocused && queryErrors.length > 0
+  // An empty box offers the shopper's recent searches instead of suggestions
+  const showRecent = isFocused && !value.trim() && recentSearches.length > 0
+  const showSuggestions = isFocused && deferredQuery.length > 0 && hasSuggestions && !showErrors
+  const isOpen = showRecent || showSuggestions
+
+  const close = () => {
+    setIsFocused(false)
+    setHasNavigated(false)
+    if (document.activeElement instanceof HTMLElement) {
+      document.activeElement.blur()
+    }
+  }
+
+  // Malformed qualifiers stay in the box, flagged, until they are fixed
+  const submit = (query: string) => {
+    if (parseSearchQuery(query).errors.length > 0) {
+      setIsFocused(true)
+      return
+    }
+    close()
+    onSearch(query)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      setHasNavigated(true)
+    } else if (e.key === 'Escape') {
+      setIsFocused(false)
+    } else if (e.key === 'Enter' && (!isOpen || !hasNavigated)) {
+      e.preventDefault()
+      submit(value)
+    }
+  }
+
+  return (
+    <Command
+      shouldFilter={false}
+      loop
+      onKeyDown={handleKeyDown}
+      className="relative overflow-visible bg-transparent"
+    >
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          submit(value)
+        }}
+        className="flex"
+      >
+        <CommandPrimitive.Input
+          value={value}
+          onValueChange={(next) => {
+            onValueChange(next)
+            setHasNavigated(false)
+          }}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          placeholder="Search Amazon.clone"
+          aria-invalid={queryErrors.length > 0}
+          className="flex h-9 w-full rounded-md rounded-r-none border border-r-0 border-input bg-white px-3 py-1 text-base text-black shadow-sm placeholder:text-muted-foreground focus-visible:outline-none md:text-sm"
+        />
+        <Button
+          type="submit"
+          className="rounded-l-none bg-amazon-orange hover:bg-orange-600 px-4"
+        >
+          <Search className="h-4 w-4" />
+        </Button>
+      </form>
+
+      {showErrors && (
+        <div
+          role="alert"
+          className="absolute left-0 right-0 top-full z-50 mt-1 space-y-1 rounded-md border border-red-200 bg-white p-2 text-sm text-black shadow-lg"
+        >
+          {queryErrors.map(({ token, message }, index) => (
+            <div key={`${token}-${index}`} className="flex items-start gap-2">
+              <AlertCircle className="mt-0.5 h-4 w-4 shrink-0 text-red-600" />
+              <span>
+                <code className="rounded bg-red-50 px-1 text-red-700">{token}</code> {message}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isOpen && (
+        <CommandList
+          // Keep focus in the input while clicking a suggestion
+          onMouseDown={(e) => e.preventDefault()}
+          className={cn(
+            'absolute left-0 right-0 top-full z-50 mt-1 max-h-[420px] rounded-md border bg-white text-black shadow-lg',
+            !hasNavigated && '[&_[cmdk-item][data-selected=true]]:bg-transparent'
+          )}
+        >
+          {showRecent && (
+            <CommandGroup heading="Recent searches">
+              {recentSearches.map((search) => (
+                <CommandItem
+                  key={search.id}
+                  value={`recent:${search.id}`}
+                  onSelect={() => {
+                    onValueChange(search.query)
+                    submit(search.query)
+                  }}
+                >
+                  <Clock className="h-4 w-4 text-gray-500" />
+                  <span className="flex-1 line-clamp-1">{search.query}</span>
+                  <button
+                    type="button"
+                    aria-label={`Remove "${search.query}" from recent searches`}
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onRemoveRecentSearch(search.id)
+                    }}
+                    className="text-gray-400 hover:text-gray-700"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </CommandItem>
+              ))}
+              <CommandItem value="recent:clear" onSelect={onClearRecentSearches} className="justify-center text-xs text-amazon-blue">
+                Clear recent searches
+              </CommandItem>
+            </CommandGroup>
+          )}
+          {showSuggestions && suggestions.products.length > 0 && (
+            <CommandGroup heading="Products">
+              {suggestions.products.map((product) => (
+                <CommandItem
+                  key={product.id}
+                  value={`product:${product.id}`}
+                  onSelect={() => {
+                    close()
+                    onProductSelect(product.id)
+                  }}
+                >
+                  <img src={product.imageUrl} alt="" className="h-8 w-8 rounded object-cover" />
+                  <span className="line-clamp-1">
+                    <HighlightedText text={product.title} queryTokens={queryTokens} />
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+          {showSuggestions && suggestions.brands.length > 0 && (
+            <CommandGroup heading="Brands">
+              {suggestions.brands.map((brand) => (
+                <CommandItem
+                  key={brand}
+                  value={`brand:${brand}`}
+                  onSelect={() => {
+                    onValueChange(brand)
+                    submit(brand)
+                  }}
+                >
+                  <Tag className="h-4 w-4 text-gray-500" />
+                  <HighlightedText text={brand} queryTokens={queryTokens} />
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+          {showSuggestions && suggestions.categories.length > 0 && (
+            <CommandGroup heading="Categories">
+              {suggestions.categories.map((category) => (
+                <CommandItem
+                  key={category.id}
+                  value={`category:${category.id}`}
+                  onSelect={() => {
+                    close()
+                    onValueChange('')
+                    onCategorySelect(category.slug)
+                  }}
+                >
+                  <LayoutGrid className="h-4 w-4 text-gray-500" />
+                  <span>
+                    in <HighlightedText text={category.name} queryTokens={queryTokens} />
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+        </CommandList>
+      )}
+    </Command>
+  )
+}
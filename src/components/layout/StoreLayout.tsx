@@ -0,0 +1,65 @@
+import { useState, useEffect } from 'react'
+import { Outlet, useLocation, useSearchParams } from 'react-router-dom'
+import { Header } from '@/components/layout/Header'
+import { ShoppingCart } from '@/components/cart/ShoppingCart'
+import { parseListingFilters } from '@/lib/listing'
+import { formatSearchQuery } from '@/lib/query-syntax'
+import type { AddressBook } from '@/hooks/use-address-book'
+import type { Cart } from '@/hooks/use-cart'
+import type { SearchHistory } from '@/hooks/use-search-history'
+import type { Category } from '@/types'
+
+interface StoreLayoutProps {
+  categories: Category[]
+  cart: Cart
+  searchHistory: SearchHistory
+  addressBook: AddressBook
+  onSearch: (query: string) => void
+  onCategorySelect: (slug: string) => void
+}
+
+export function StoreLayout({
+  categories,
+  cart,
+  searchHistory,
+  addressBook,
+  onSearch,
+  onCategorySelect
+}: StoreLayoutProps) {
+  const { pathname } = useLocation()
+  const [searchParams] = useSearchParams()
+  const [isCartOpen, setIsCartOpen] = useState(false)
+
+  // Start every new page at the top, and close the cart drawer when leaving a page
+  useEffect(() => {
+    window.scrollTo(0, 0)
+    setIsCartOpen(false)
+  }, [pathname])
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header
+        // Show the active filters as qualifiers so the search box and filter controls agree
+        currentQuery={pathname === '/search' ? formatSearchQuery(parseListingFilters(searchParams)) : ''}
+        onSearch={onSearch}
+        onCategorySelect={onCategorySelect}
+        categories={categories}
+        cartItems={cart.cartItems}
+        searchHistory={searchHistory}
+        addressBook={addressBook}
+        onCartClick={() => setIsCartOpen(true)}
+      />
+
+      <main className="container mx-auto px-4 py-6">
+        <Outlet />
+      </main>
+
+      {/* Shopping Cart */}
+      <ShoppingCart
+        isOpen={isCartOpen}
+        onClose={() => setIsCartOpen(false)}
+        cart={cart}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,254 @@
+import { useState, useEffect } from 'react'
+import { Star } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Separator } from '@/components/ui/separator'
+import { Slider } from '@/components/ui/slider'
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle } from '@/components/ui/sheet'
+import { Drawer, DrawerContent, DrawerDescription, DrawerFooter, DrawerHeader, DrawerTitle } from '@/components/ui/drawer'
+import { useIsMobile } from '@/hooks/use-mobile'
+import { cn } from '@/lib/utils'
+import type { FacetCounts, FacetFilters } from '@/lib/facets'
+import type { ListingFilters } from '@/lib/listing'
+
+interface FilterPanelProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  filters: FacetFilters
+  counts: FacetCounts
+  resultCount: number
+  onChange: (changes: Partial<ListingFilters>) => void
+  onClear: () => void
+}
+
+type FacetSectionsProps = Pick<FilterPanelProps, 'filters' | 'counts' | 'onChange'>
+
+function FacetCount({ count }: { count: number }) {
+  return <span className="text-xs text-gray-500">({count})</span>
+}
+
+function PriceFacet({ filters, counts, onChange }: FacetSectionsProps) {
+  const { min, max } = counts.priceBounds
+  const selectedMin = filters.minPrice ? parseFloat(filters.minPrice) : min
+  const selectedMax = filters.maxPrice ? parseFloat(filters.maxPrice) : max
+  const [range, setRange] = useState([selectedMin, selectedMax])
+
+  // Follow changes made elsewhere, e.g. the inline price inputs or a removed chip
+  useEffect(() => {
+    setRange([selectedMin, selectedMax])
+  }, [selectedMin, selectedMax])
+
+  if (max <= min) return null
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-semibold">Price</h4>
+      <Slider
+        min={min}
+        max={max}
+        step={1}
+        value={range}
+        onValueChange={setRange}
+        // Only commit on release so dragging does not flood the history
+        onValueCommit={([nextMin, nextMax]) => onChange({
+          minPrice: nextMin > min ? String(nextMin) : '',
+          maxPrice: nextMax < max ? String(nextMax) : ''
+        })}
+      />
+      <div className="flex justify-between text-sm text-gray-600">
+        <span>${range[0]}</span>
+        <span>${range[1]}{range[1] >= max ? '+' : ''}</span>
+      </div>
+    </div>
+  )
+}
+
+function FacetSections({ filters, counts, onChange }: FacetSectionsProps) {
+  const toggleBrand = (brand: string, checked: boolean) => {
+    onChange({
+      brands: checked
+        ? [...filters.brands, brand]
+        : filters.brands.filter(selected => selected !== brand)
+    })
+  }
+
+  const toggleSpec = (key: string, value: string, checked: boolean) => {
+    const selected = filters.specs[key] ?? []
+    onChange({
+      specs: {
+        ...filters.specs,
+        [key]: checked ? [...selected, value] : selected.filter(other => other !== value)
+      }
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Brands */}
+      {counts.brands.length > 0 && (
+        <div className="space-y-3">
+          <h4 className="font-semibold">Brand</h4>
+          {counts.brands.map(({ value, count }) => {
+            const checked = filters.brands.includes(value)
+            const id = `facet-brand-${value}`
+
+            return (
+              <div key={value} className="flex items-center gap-2">
+                <Checkbox
+                  id={id}
+                  checked={checked}
+                  disabled={!checked && count === 0}
+                  onCheckedChange={(state) => toggleBrand(value, state === true)}
+                />
+                <Label htmlFor={id} className="font-normal">{value}</Label>
+                <FacetCount count={count} />
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <Separator />
+
+      {/* Customer Reviews */}
+      <div className="space-y-2">
+        <h4 className="font-semibold">Customer Reviews</h4>
+        {counts.ratings.map(({ value, count }) => {
+          const selected = filters.minRating === value
+
+          return (
+            <button
+              key={value}
+              type="button"
+              disabled={!selected && count === 0}
+              onClick={() => onChange({ minRating: selected ? 0 : value })}
+              className={cn(
+                'flex items-center gap-1 text-sm disabled:opacity-50',
+                selected && 'font-semibold text-amazon-blue'
+              )}
+            >
+              {[...Array(5)].map((_, i) => (
+                <Star
+                  key={i}
+                  className={`h-4 w-4 ${i < value ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`}
+                />
+              ))}
+              <span className="ml-1">& Up</span>
+              <FacetCount count={count} />
+            </button>
+          )
+        })}
+      </div>
+
+      <Separator />
+
+      {/* Availability and Deals */}
+      <div className="space-y-3">
+        <h4 className="font-semibold">Availability</h4>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="facet-in-stock"
+            checked={filters.inStock}
+            disabled={!filters.inStock && counts.inStock === 0}
+            onCheckedChange={(state) => onChange({ inStock: state === true })}
+          />
+          <Label htmlFor="facet-in-stock" className="font-normal">In stock only</Label>
+          <FacetCount count={counts.inStock} />
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="facet-on-sale"
+            checked={filters.onSale}
+            disabled={!filters.onSale && counts.onSale === 0}
+            onCheckedChange={(state) => onChange({ onSale: state === true })}
+          />
+          <Label htmlFor="facet-on-sale" className="font-normal">On sale</Label>
+          <FacetCount count={counts.onSale} />
+        </div>
+      </div>
+
+      {/* Category-specific specifications */}
+      {counts.specs.map((facet) => (
+        <div key={facet.key} className="space-y-6">
+          <Separator />
+          <div className="space-y-3">
+            <h4 className="font-semibold">{facet.key}</h4>
+            {facet.options.map(({ value, label, count }) => {
+              const selected = filters.specs[facet.key] ?? []
+              const checked = selected.includes(value)
+              const id = `facet-spec-${facet.key}-${value}`
+
+              return (
+                <div key={value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={id}
+                    checked={checked}
+                    disabled={!checked && count === 0}
+                    onCheckedChange={(state) => toggleSpec(facet.key, value, state === true)}
+                  />
+                  <Label htmlFor={id} className="font-normal">{label}</Label>
+                  <FacetCount count={count} />
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      ))}
+
+      <Separator />
+
+      <PriceFacet filters={filters} counts={counts} onChange={onChange} />
+    </div>
+  )
+}
+
+export function FilterPanel({ open, onOpenChange, filters, counts, resultCount, onChange, onClear }: FilterPanelProps) {
+  const isMobile = useIsMobile()
+
+  const footer = (
+    <>
+      <Button
+        className="w-full bg-amazon-orange hover:bg-orange-600 text-white"
+        onClick={() => onOpenChange(false)}
+      >
+        Show {resultCount} results
+      </Button>
+      <Button variant="outline" className="w-full" onClick={onClear}>
+        Clear filters
+      </Button>
+    </>
+  )
+
+  if (isMobile) {
+    return (
+      <Drawer open={open} onOpenChange={onOpenChange}>
+        <DrawerContent className="max-h-[85vh]">
+          <DrawerHeader>
+            <DrawerTitle>Filters</DrawerTitle>
+            <DrawerDescription>Narrow down the products in this listing</DrawerDescription>
+          </DrawerHeader>
+          <div className="overflow-y-auto px-4">
+            <FacetSections filters={filters} counts={counts} onChange={onChange} />
+          </div>
+          <DrawerFooter>{footer}</DrawerFooter>
+        </DrawerContent>
+      </Drawer>
+    )
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="left" className="flex flex-col w-80">
+        <SheetHeader>
+          <SheetTitle>Filters</SheetTitle>
+          <SheetDescription>Narrow down the products in this listing</SheetDescription>
+        </SheetHeader>
+        <div className="flex-1 overflow-y-auto py-4">
+          <FacetSections filters={filters} counts={counts} onChange={onChange} />
+        </div>
+        <SheetFooter className="flex-col gap-2 sm:flex-col sm:space-x-0">{footer}</SheetFooter>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,75 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from '@/components/ui/pagination'
+import { cn } from '@/lib/utils'
+
+interface ListingPaginationProps {
+  page: number
+  pageCount: number
+  getPageHref: (page: number) => string
+  onPageChange: (page: number) => void
+}
+
+// Pages adjacent to the current one, plus the first and last, with gaps as null
+function getVisiblePages(page: number, pageCount: number) {
+  const pages: (number | null)[] = []
+  for (let candidate = 1; candidate <= pageCount; candidate++) {
+    if (candidate === 1 || candidate === pageCount || Math.abs(candidate - page) <= 1) {
+      pages.push(candidate)
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null)
+    }
+  }
+  return pages
+}
+
+export function ListingPagination({ page, pageCount, getPageHref, onPageChange }: ListingPaginationProps) {
+  if (pageCount <= 1) return null
+
+  // Real hrefs keep open-in-new-tab working; plain clicks stay in the router
+  const linkProps = (target: number) => ({
+    href: getPageHref(target),
+    onClick: (e: React.MouseEvent) => {
+      e.preventDefault()
+      onPageChange(target)
+    }
+  })
+
+  return (
+    <Pagination className="mt-8">
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            {...linkProps(Math.max(1, page - 1))}
+            aria-disabled={page === 1}
+            className={cn(page === 1 && 'pointer-events-none opacity-50')}
+          />
+        </PaginationItem>
+        {getVisiblePages(page, pageCount).map((target, index) => (
+          <PaginationItem key={target ?? `gap-${index}`}>
+            {target === null ? (
+              <PaginationEllipsis />
+            ) : (
+              <PaginationLink {...linkProps(target)} isActive={target === page}>
+                {target}
+              </PaginationLink>
+            )}
+          </PaginationItem>
+        ))}
+        <PaginationItem>
+          <PaginationNext
+            {...linkProps(Math.min(pageCount, page + 1))}
+            aria-disabled={page === pageCount}
+            className={cn(page === pageCount && 'pointer-events-none opacity-50')}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  )
+}
@@ -3,6 +3,7 @@ import { Star, Heart, ShoppingCart } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { getAvailableStock, isLowStock } from '@/lib/stock'
 import type { Product } from '@/types'
 
 interface ProductCardProps {
@@ -15,6 +16,7 @@ export function ProductCard({ product, onAddToCart, onProductClick }: ProductCar
   const [isWishlisted, setIsWishlisted] = useState(false)
   const [imageLoaded, setImageLoaded] = useState(false)
 
+  const availableStock = getAvailableStock(product)
   const discountPercentage = product.originalPrice 
     ? Math.round(((product.originalPrice - product.price) / product.originalPrice) * 100)
     : 0
@@ -111,17 +113,19 @@ export function ProductCard({ product, onAddToCart, onProductClick }: ProductCar
           
           {/* Stock status */}
           <div className="text-xs">
-            {product.inStock ? (
-              <span className="text-green-600">In Stock</span>
-            ) : (
+            {availableStock === 0 ? (
               <span className="text-red-600">Out of Stock</span>
+            ) : isLowStock(product) ? (
+              <span className="text-red-600">Only {availableStock} left in stock</span>
+            ) : (
+              <span className="text-green-600">In Stock</span>
             )}
           </div>
           
           {/* Add to Cart Button */}
           <Button
             onClick={handleAddToCart}
-            disabled={!product.inStock}
+            disabled={availableStock === 0}
             className="w-full bg-amazon-orange hover:bg-orange-600 text-white mt-3"
             size="sm"
           >
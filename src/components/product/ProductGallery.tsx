@@ -0,0 +1,43 @@
+import { useState } from 'react'
+import { cn } from '@/lib/utils'
+
+interface ProductGalleryProps {
+  images: string[]
+  title: string
+}
+
+export function ProductGallery({ images, title }: ProductGalleryProps) {
+  const [selectedIndex, setSelectedIndex] = useState(0)
+
+  const activeImage = images[selectedIndex] ?? images[0]
+
+  return (
+    <div className="flex flex-col-reverse md:flex-row gap-3">
+      {/* Thumbnails */}
+      {images.length > 1 && (
+        <div className="flex md:flex-col gap-2 overflow-x-auto md:overflow-visible">
+          {images.map((image, index) => (
+            <button
+              key={`${image}-${index}`}
+              type="button"
+              onClick={() => setSelectedIndex(index)}
+              onMouseEnter={() => setSelectedIndex(index)}
+              className={cn(
+                'w-16 h-16 shrink-0 overflow-hidden rounded border-2 bg-gray-100',
+                index === selectedIndex ? 'border-amazon-orange' : 'border-gray-200 hover:border-gray-400'
+              )}
+              aria-label={`Show image ${index + 1} of ${images.length}`}
+            >
+              <img src={image} alt="" className="w-full h-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Main Image */}
+      <div className="flex-1 aspect-square overflow-hidden rounded-lg bg-gray-100">
+        <img src={activeImage} alt={title} className="w-full h-full object-cover" />
+      </div>
+    </div>
+  )
+}
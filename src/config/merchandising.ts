@@ -0,0 +1,23 @@
+/**
+ * Merchandising knobs for the "Featured" sort. Each weight scales a signal
+ * normalised to 0-1, so only their ratios matter.
+ */
+export const FEATURED_RANKING = {
+  weights: {
+    // Bayesian average rating, so a few 5-star reviews do not beat many 4.6s
+    rating: 0.45,
+    // Newer products first, fading with `recencyHalfLifeDays`
+    recency: 0.2,
+    // Deeper discounts first, maxing out at `fullDiscount`
+    discount: 0.2,
+    // Well-stocked products first, maxing out at `wellStockedQuantity`
+    stock: 0.15
+  },
+  // Reviews' worth of the catalog-average rating every product starts with
+  priorReviewCount: 20,
+  recencyHalfLifeDays: 30,
+  fullDiscount: 0.5,
+  wellStockedQuantity: 20
+}
+
+export type FeaturedRankingConfig = typeof FEATURED_RANKING
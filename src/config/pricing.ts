@@ -0,0 +1,56 @@
+/**
+ * Shipping and tax rules used to price a cart. Amounts are in dollars and
+ * rates are fractions, e.g. 0.0725 for 7.25%.
+ */
+export const PRICING = {
+  // Quotes use this destination until the shopper gives an address
+  defaultCountry: 'US',
+  shipping: {
+    // Merchandise totals at or above this ship free to zones that allow it
+    freeShippingThreshold: 35,
+    // Weight assumed for products that list none in their specifications
+    defaultItemWeightLb: 1,
+    // The first zone listing the destination country wins; `*` matches any country
+    zones: [
+      { id: 'domestic', label: 'Domestic', countries: ['US'], baseRate: 5.99, perPound: 0.5, freeOverThreshold: true },
+      { id: 'north-america', label: 'North America', countries: ['CA', 'MX'], baseRate: 12.99, perPound: 1.5, freeOverThreshold: false },
+      { id: 'international', label: 'International', countries: ['*'], baseRate: 24.99, perPound: 3, freeOverThreshold: false }
+    ],
+    // Faster speeds add a surcharge to the zone rate and never ship free; the first is the default
+    speeds: [
+      { id: 'standard', label: 'Standard', businessDays: [5, 7], surcharge: 0, freeOverThreshold: true },
+      { id: 'expedited', label: 'Expedited', businessDays: [2, 3], surcharge: 9.99, freeOverThreshold: false },
+      { id: 'next-day', label: 'Next Day', businessDays: [1, 1], surcharge: 24.99, freeOverThreshold: false }
+    ]
+  },
+  tax: {
+    // US sales tax by state; states not listed charge none
+    stateRates: {
+      CA: 0.0725,
+      CO: 0.029,
+      FL: 0.06,
+      GA: 0.04,
+      IL: 0.0625,
+      MA: 0.0625,
+      NJ: 0.06625,
+      NY: 0.04,
+      PA: 0.06,
+      TX: 0.0625,
+      WA: 0.065
+    } as Record<string, number>,
+    // Other countries by ISO code; countries not listed charge none
+    countryRates: {
+      CA: 0.05,
+      MX: 0.16,
+      GB: 0.2,
+      DE: 0.19,
+      FR: 0.2
+    } as Record<string, number>,
+    // Whether shipping is part of the taxable amount
+    taxShipping: false
+  }
+}
+
+export type PricingConfig = typeof PRICING
+export type ShippingZone = PricingConfig['shipping']['zones'][number]
+export type ShippingSpeed = PricingConfig['shipping']['speeds'][number]
@@ -0,0 +1,165 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import {
+  createAddressStore,
+  newSavedAddress,
+  readDeliveryAddressId,
+  writeDeliveryAddressId,
+  type AddressDefault
+} from '@/lib/address-book'
+import type { Address, SavedAddress, User } from '@/types'
+
+const DEFAULT_FLAGS = {
+  shipping: 'isDefaultShipping',
+  billing: 'isDefaultBilling'
+} as const
+
+/**
+ * The shopper's saved addresses, with one default each for shipping and
+ * billing, and the address the header says orders are delivered to.
+ * Changes show up immediately; failed writes are undone and rethrown so the
+ * caller can tell the shopper.
+ */
+export function useAddressBook(user: User | null) {
+  const [addresses, setAddresses] = useState<SavedAddress[]>([])
+  const [selectedId, setSelectedId] = useState(readDeliveryAddressId)
+  const store = useMemo(() => createAddressStore(user), [user])
+
+  useEffect(() => {
+    let cancelled = false
+
+    store.list()
+      .then((saved) => {
+        if (!cancelled) setAddresses(saved)
+      })
+      .catch((error) => console.error('Failed to load addresses:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [store])
+
+  const defaultShipping = addresses.find(address => address.isDefaultShipping) ?? null
+  const defaultBilling = addresses.find(address => address.isDefaultBilling) ?? null
+  // The picked address, or the default shipping address until one is picked
+  const deliveryAddress = addresses.find(address => address.id === selectedId) ??
+    defaultShipping ??
+    addresses[0] ??
+    null
+
+  const selectDeliveryAddress = useCallback((id: string) => {
+    setSelectedId(id)
+    writeDeliveryAddressId(id)
+  }, [])
+
+  // The first address saved becomes the default for both shipping and billing
+  const addAddress = useCallback(async (address: Address, defaults: AddressDefault[] = []) => {
+    const isFirst = addresses.length === 0
+    const saved: SavedAddress = {
+      ...newSavedAddress(user, address),
+      isDefaultShipping: isFirst || defaults.includes('shipping'),
+      isDefaultBilling: isFirst || defaults.includes('billing')
+    }
+    const previous = addresses
+    // Addresses that lose a default to the new one
+    const demoted = addresses
+      .filter(other => (saved.isDefaultShipping && other.isDefaultShipping) || (saved.isDefaultBilling && other.isDefaultBilling))
+      .map(other => ({
+        id: other.id,
+        isDefaultShipping: other.isDefaultShipping && !saved.isDefaultShipping,
+        isDefaultBilling: other.isDefaultBilling && !saved.isDefaultBilling
+      }))
+    setAddresses([
+      saved,
+      ...addresses.map(other => ({ ...other, ...demoted.find(change => change.id === other.id) }))
+    ])
+
+    try {
+      await store.create(saved)
+      await Promise.all(demoted.map(({ id, ...flags }) => store.update(id, flags)))
+      return saved
+    } catch (error) {
+      console.error('Failed to save address:', error)
+      setAddresses(previous)
+      throw error
+    }
+  }, [user, addresses, store])
+
+  const updateAddress = useCallback(async (id: string, address: Address) => {
+    const previous = addresses
+    const changes = { ...address, updatedAt: new Date().toISOString() }
+    setAddresses(prev => prev.map(other => other.id === id ? { ...other, ...changes } : other))
+    try {
+      await store.update(id, changes)
+    } catch (error) {
+      console.error('Failed to update address:', error)
+      setAddresses(previous)
+      throw error
+    }
+  }, [addresses, store])
+
+  // A default held by the deleted address passes to the next address left
+  const deleteAddress = useCallback(async (id: string) => {
+    const previous = addresses
+    const deleted = addresses.find(address => address.id === id)
+    const remaining = addresses.filter(address => address.id !== id)
+    const [next] = remaining
+    const promoted = next && deleted && (deleted.isDefaultShipping || deleted.isDefaultBilling)
+      ? {
+          id: next.id,
+          isDefaultShipping: next.isDefaultShipping || deleted.isDefaultShipping,
+          isDefaultBilling: next.isDefaultBilling || deleted.isDefaultBilling
+        }
+      : null
+    setAddresses(remaining.map(address => address.id === promoted?.id ? { ...address, ...promoted } : address))
+    if (selectedId === id) {
+      setSelectedId(null)
+      writeDeliveryAddressId(null)
+    }
+    try {
+      await store.remove(id)
+    } catch (error) {
+      console.error('Failed to delete address:', error)
+      setAddresses(previous)
+      throw error
+    }
+    if (!promoted) return
+
+    // The address is gone either way; without its default the shopper can pick one
+    const { id: promotedId, ...flags } = promoted
+    try {
+      await store.update(promotedId, flags)
+    } catch (error) {
+      console.error('Failed to move default address:', error)
+      setAddresses(remaining)
+    }
+  }, [addresses, selectedId, store])
+
+  // Moves the shipping or billing default to this address
+  const setDefaultAddress = useCallback(async (id: string, kind: AddressDefault) => {
+    const flag = DEFAULT_FLAGS[kind]
+    const previous = addresses
+    const changed = addresses.filter(address => address[flag] !== (address.id === id))
+    setAddresses(prev => prev.map(address => ({ ...address, [flag]: address.id === id })))
+    try {
+      await Promise.all(changed.map(address => store.update(address.id, { [flag]: address.id === id })))
+    } catch (error) {
+      console.error('Failed to update default address:', error)
+      setAddresses(previous)
+      throw error
+    }
+  }, [addresses, store])
+
+  return {
+    addresses,
+    defaultShipping,
+    defaultBilling,
+    deliveryAddress,
+    selectDeliveryAddress,
+    addAddress,
+    updateAddress,
+    deleteAddress,
+    setDefaultAddress
+  }
+}
+
+export type AddressBook = ReturnType<typeof useAddressBook>
@@ -0,0 +1,26 @@
+import { useMemo } from 'react'
+import type { Cart } from '@/hooks/use-cart'
+import { priceCartWithCoupon } from '@/lib/coupons'
+import type { Address, Product } from '@/types'
+
+interface CartPricingOptions {
+  address?: Address | null
+  shippingSpeed?: string
+}
+
+/**
+ * Prices the active cart lines with the applied promo code, if it still
+ * qualifies. `couponResult` says why it does not, so the cart can explain.
+ */
+export function useCartPricing(
+  cart: Cart,
+  getProduct: (productId: string) => Product | undefined,
+  { address = null, shippingSpeed }: CartPricingOptions = {}
+) {
+  const { cartItems, appliedCoupon } = cart
+
+  return useMemo(
+    () => priceCartWithCoupon(cartItems, appliedCoupon, getProduct, { address, shippingSpeed }),
+    [cartItems, appliedCoupon, getProduct, address, shippingSpeed]
+  )
+}
@@ -0,0 +1,353 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import toast from 'react-hot-toast'
+import { blink } from '@/blink/client'
+import { createCartStore, isActiveLine, mergeGuestCart, newCartItem } from '@/lib/cart'
+import { notifyCartChanged, subscribeToCartChanges } from '@/lib/cart-sync'
+import { evaluateCoupon, loadCoupon, type AppliedCoupon } from '@/lib/coupons'
+import { getUserId } from '@/lib/record-store'
+import { getAvailableStock } from '@/lib/stock'
+import type { CartItem, Product, User } from '@/types'
+
+// Quantity changes made within this window are sent as a single write
+const COALESCE_DELAY_MS = 400
+// Re-reads the cart this often while the tab is visible, in case a realtime notice was missed
+const BACKGROUND_REFRESH_MS = 60_000
+
+// Shown when a quantity can't go up until the product's stock has loaded
+const STOCK_CHECK_MESSAGE = 'Checking stock for this item. Please try again in a moment.'
+
+const byNewestFirst = (a: CartItem, b: CartItem) => b.createdAt.localeCompare(a.createdAt)
+
+/**
+ * The shopper's cart, kept in blink.db once signed in and in localStorage
+ * before that. Signing in merges the guest cart into the account cart.
+ *
+ * Changes show up immediately and are written in the background, one line at a
+ * time and in order. A failed write puts the line back the way the server last
+ * had it and tells the shopper. Once nothing is left to write, the cart is
+ * re-read so it matches the server again, and other tabs and devices are told
+ * to do the same.
+ *
+ * Quantities are capped at the stock of the product, taken from the freshest
+ * product data seen: the listings and product pages, or what the cart loaded
+ * when it was opened. A product not seen yet is loaded before its quantity can
+ * go up.
+ *
+ * One promo code can be applied at a time. It is kept for the session and
+ * re-checked against the cart whenever the cart is priced.
+ */
+export function useCart(user: User | null, authLoading: boolean) {
+  // Every line, active or saved for later
+  const [lines, setLines] = useState<CartItem[]>([])
+  const cartItems = useMemo(() => lines.filter(isActiveLine), [lines])
+  const savedItems = useMemo(() => lines.filter(line => !isActiveLine(line)), [lines])
+  const store = useMemo(() => createCartStore(user), [user])
+
+  const refreshedProducts = useRef(new Map<string, Product>())
+
+  const getProduct = useCallback((productId: string) => refreshedProducts.current.get(productId), [])
+
+  // Called with freshly loaded products so caps follow the latest stock
+  const refreshProducts = useCallback((products: Product[]) => {
+    products.forEach(product => refreshedProducts.current.set(product.id, product))
+  }, [])
+
+  // The most of a product the cart may hold, or null until its stock has loaded
+  const getQuantityLimit = useCallback((productId: string) => {
+    const product = getProduct(productId)
+    if (product) return getAvailableStock(product)
+
+    const loadProduct = async () => {
+      try {
+        refreshProducts(await blink.db.products.list({ where: { id: productId }, limit: 1 }))
+      } catch (error) {
+        console.error('Failed to load product:', error)
+      }
+    }
+    loadProduct()
+    return null
+  }, [getProduct, refreshProducts])
+
+  // Lines as the server last confirmed them, for rolling back failed writes
+  const confirmed = useRef(new Map<string, CartItem>())
+  // The write currently queued for each line, so writes to one line stay in order
+  const lineQueues = useRef(new Map<string, Promise<void>>())
+  const quantityTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>())
+  const pendingWrites = useRef(0)
+  // Whether a write has gone through since other tabs were last told
+  const hasUnannouncedWrites = useRef(false)
+
+  const applyServerItems = useCallback((items: CartItem[]) => {
+    confirmed.current = new Map(items.map(item => [item.id, item]))
+    setLines(items)
+  }, [])
+
+  const reload = useCallback(async () => {
+    try {
+      const items = await store.list()
+      // Writes made while loading would be lost by replacing the cart now
+      if (pendingWrites.current === 0 && quantityTimers.current.size === 0) {
+        applyServerItems(items)
+      }
+    } catch (error) {
+      console.error('Failed to load cart items:', error)
+    }
+  }, [store, applyServerItems])
+
+  useEffect(() => {
+    if (authLoading) return
+
+    const load = async () => {
+      if (user) {
+        try {
+          await mergeGuestCart(user)
+        } catch (error) {
+          console.error('Failed to merge guest cart:', error)
+        }
+      }
+      try {
+        applyServerItems(await store.list())
+      } catch (error) {
+        console.error('Failed to load cart items:', error)
+        applyServerItems([]) // Set empty array on error
+      }
+    }
+    load()
+  }, [user, authLoading, store, applyServerItems])
+
+  // Other tabs and devices announce their changes; polling and returning to the tab cover missed ones
+  useEffect(() => {
+    if (authLoading) return
+
+    const unsubscribe = subscribeToCartChanges(getUserId(user), user !== null, reload)
+    const refreshIfVisible = () => {
+      if (document.visibilityState === 'visible') reload()
+    }
+    const timer = setInterval(refreshIfVisible, BACKGROUND_REFRESH_MS)
+    document.addEventListener('visibilitychange', refreshIfVisible)
+
+    return () => {
+      unsubscribe()
+      clearInterval(timer)
+      document.removeEventListener('visibilitychange', refreshIfVisible)
+    }
+  }, [user, authLoading, reload])
+
+  // Puts a line back the way the server last confirmed it
+  const rollBack = useCallback((itemId: string) => {
+    const serverItem = confirmed.current.get(itemId)
+    setLines(prev => {
+      const others = prev.filter(item => item.id !== itemId)
+      return serverItem ? [...others, serverItem].sort(byNewestFirst) : others
+    })
+  }, [])
+
+  const queueWrite = useCallback((itemId: string, write: () => Promise<void>, failureMessage: string) => {
+    pendingWrites.current++
+
+    const previous = lineQueues.current.get(itemId) ?? Promise.resolve()
+    const next = previous
+      .then(write)
+      .then(() => {
+        hasUnannouncedWrites.current = true
+      })
+      .catch((error) => {
+        console.error(`${failureMessage}:`, error)
+        rollBack(itemId)
+        toast.error(`${failureMessage}. Please try again.`, { id: 'cart-write-failed' })
+      })
+      .finally(() => {
+        if (lineQueues.current.get(itemId) === next) lineQueues.current.delete(itemId)
+        pendingWrites.current--
+        if (pendingWrites.current === 0 && quantityTimers.current.size === 0) {
+          reload()
+          if (hasUnannouncedWrites.current) {
+            hasUnannouncedWrites.current = false
+            notifyCartChanged(getUserId(user), user !== null)
+          }
+        }
+      })
+    lineQueues.current.set(itemId, next)
+  }, [rollBack, reload, user])
+
+  const cancelQuantityWrite = (itemId: string) => {
+    clearTimeout(quantityTimers.current.get(itemId))
+    quantityTimers.current.delete(itemId)
+  }
+
+  const scheduleQuantityWrite = useCallback((itemId: string, quantity: number) => {
+    clearTimeout(quantityTimers.current.get(itemId))
+    quantityTimers.current.set(itemId, setTimeout(() => {
+      quantityTimers.current.delete(itemId)
+      const updatedAt = new Date().toISOString()
+      queueWrite(itemId, async () => {
+        await store.update(itemId, { quantity, updatedAt })
+        const serverItem = confirmed.current.get(itemId)
+        if (serverItem) confirmed.current.set(itemId, { ...serverItem, quantity, updatedAt })
+      }, "Couldn't update the quantity")
+    }, COALESCE_DELAY_MS))
+  }, [queueWrite, store])
+
+  const removeItem = useCallback((itemId: string) => {
+    cancelQuantityWrite(itemId)
+    setLines(prev => prev.filter(item => item.id !== itemId))
+    queueWrite(itemId, async () => {
+      await store.remove(itemId)
+      confirmed.current.delete(itemId)
+    }, "Couldn't remove the item")
+  }, [queueWrite, store])
+
+  const updateQuantity = useCallback((itemId: string, requested: number) => {
+    if (requested <= 0) {
+      removeItem(itemId)
+      return
+    }
+
+    // Lowering a quantity is always allowed; raising it stops at the stock left
+    const item = lines.find(line => line.id === itemId)
+    let quantity = requested
+    if (item && requested > item.quantity) {
+      const limit = getQuantityLimit(item.productId)
+      if (limit === null) {
+        toast(STOCK_CHECK_MESSAGE, { id: `stock-${itemId}` })
+        return
+      }
+      if (requested > limit) {
+        toast.error(limit === 0 ? 'This item is out of stock.' : `Only ${limit} left in stock.`, { id: `stock-${itemId}` })
+        quantity = Math.max(item.quantity, limit)
+      }
+    }
+    if (quantity === item?.quantity) return
+
+    setLines(prev => prev.map(item => item.id === itemId ? { ...item, quantity } : item))
+    scheduleQuantityWrite(itemId, quantity)
+  }, [lines, getQuantityLimit, removeItem, scheduleQuantityWrite])
+
+  const addItem = useCallback((productId: string, requested = 1) => {
+    // Check if item already exists in cart
+    const existingItem = cartItems.find(item => item.productId === productId)
+    const limit = getQuantityLimit(productId)
+    if (limit === null) {
+      toast(STOCK_CHECK_MESSAGE, { id: `stock-${productId}` })
+      return
+    }
+    const inCart = existingItem?.quantity ?? 0
+    const quantity = Math.min(requested, limit - inCart)
+
+    if (quantity <= 0) {
+      toast.error(
+        limit === 0 ? 'This item is out of stock.' : `Only ${limit} left in stock, and they're all in your cart.`,
+        { id: `stock-${productId}` }
+      )
+      return
+    }
+    if (quantity < requested) {
+      toast(`Only ${limit} left in stock, so we added ${quantity}.`, { id: `stock-${productId}` })
+    }
+
+    if (existingItem) {
+      updateQuantity(existingItem.id, inCart + quantity)
+      return
+    }
+
+    // Ids are generated here, so the new line needs no swapping once saved
+    const item = newCartItem(user, productId, quantity, getProduct(productId)?.price)
+    setLines(prev => [item, ...prev])
+    queueWrite(item.id, async () => {
+      await store.create(item)
+      confirmed.current.set(item.id, item)
+    }, "Couldn't add the item to your cart")
+  }, [cartItems, getQuantityLimit, getProduct, user, updateQuantity, queueWrite, store])
+
+  const updateLine = useCallback((itemId: string, changes: Pick<Partial<CartItem>, 'status' | 'price'>, failureMessage: string) => {
+    const update = { ...changes, updatedAt: new Date().toISOString() }
+    setLines(prev => prev.map(item => item.id === itemId ? { ...item, ...update } : item))
+    queueWrite(itemId, async () => {
+      await store.update(itemId, update)
+      const serverItem = confirmed.current.get(itemId)
+      if (serverItem) confirmed.current.set(itemId, { ...serverItem, ...update })
+    }, failureMessage)
+  }, [queueWrite, store])
+
+  const saveForLater = useCallback((itemId: string) => {
+    updateLine(itemId, { status: 'saved' }, "Couldn't save the item for later")
+  }, [updateLine])
+
+  const moveToCart = useCallback((itemId: string) => {
+    const item = savedItems.find(line => line.id === itemId)
+    if (!item) return
+    // A product can only have one active line, so fold into it if there is one
+    const activeLine = cartItems.find(line => line.productId === item.productId)
+    if (activeLine) {
+      removeItem(itemId)
+      updateQuantity(activeLine.id, activeLine.quantity + item.quantity)
+      return
+    }
+    updateLine(itemId, { status: 'active' }, "Couldn't move the item to your cart")
+  }, [savedItems, cartItems, removeItem, updateQuantity, updateLine])
+
+  // Accepting a price change makes the current price the one the line expects
+  const acceptPrice = useCallback((itemId: string) => {
+    const item = lines.find(line => line.id === itemId)
+    const product = item ? getProduct(item.productId) : undefined
+    if (!product) return
+    updateLine(itemId, { price: product.price }, "Couldn't update the price")
+  }, [lines, getProduct, updateLine])
+
+  const [appliedCoupon, setAppliedCoupon] = useState<AppliedCoupon | null>(null)
+
+  // Coupon usage is per account, so a different shopper starts without one
+  useEffect(() => {
+    setAppliedCoupon(null)
+  }, [user])
+
+  // Resolves to the reason the code was rejected, or null once it is applied
+  const applyCoupon = useCallback(async (code: string) => {
+    try {
+      const result = await loadCoupon(code, user)
+      if ('reason' in result) return result.reason
+      const evaluation = evaluateCoupon(result, cartItems, getProduct)
+      if (!evaluation.ok) return evaluation.reason
+      setAppliedCoupon(result)
+      return null
+    } catch (error) {
+      console.error('Failed to apply promo code:', error)
+      return "Couldn't check that code. Please try again."
+    }
+  }, [user, cartItems, getProduct])
+
+  const removeCoupon = useCallback(() => {
+    setAppliedCoupon(null)
+  }, [])
+
+  const clearCart = useCallback(() => {
+    cartItems.forEach(item => removeItem(item.id))
+  }, [cartItems, removeItem])
+
+  // Drops the lines an order was just placed for, along with the promo code it used
+  const completePurchase = useCallback((itemIds: string[]) => {
+    itemIds.forEach(itemId => removeItem(itemId))
+    setAppliedCoupon(null)
+  }, [removeItem])
+
+  return {
+    cartItems,
+    savedItems,
+    addItem,
+    updateQuantity,
+    removeItem,
+    saveForLater,
+    moveToCart,
+    acceptPrice,
+    appliedCoupon,
+    applyCoupon,
+    removeCoupon,
+    clearCart,
+    completePurchase,
+    reload,
+    getProduct,
+    refreshProducts
+  }
+}
+
+export type Cart = ReturnType<typeof useCart>
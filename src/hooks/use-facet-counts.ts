@@ -0,0 +1,46 @@
+import { useState, useEffect } from 'react'
+import { useStableValue } from '@/hooks/use-stable-value'
+import { loadFacetCounts, type FacetCounts, type FacetFilters } from '@/lib/facets'
+import type { ListingScope } from '@/lib/product-query'
+
+const NO_COUNTS: FacetCounts = {
+  brands: [],
+  ratings: [],
+  inStock: 0,
+  onSale: 0,
+  priceBounds: { min: 0, max: 0 },
+  specs: []
+}
+
+/**
+ * Loads the facet counts of a listing. The previous counts stay up until the
+ * new ones arrive, so the filter panel does not flash empty on every change.
+ */
+interface FacetCountsOptions {
+  withSpecs: boolean
+  enabled: boolean
+}
+
+export function useFacetCounts(scope: ListingScope, filters: FacetFilters, { withSpecs, enabled }: FacetCountsOptions) {
+  // Only the facets matter; sorting or paging needs no recount
+  const { brands, minRating, inStock, onSale, minPrice, maxPrice, specs } = filters
+  const request = useStableValue({ scope, filters: { brands, minRating, inStock, onSale, minPrice, maxPrice, specs }, withSpecs })
+  const [counts, setCounts] = useState(NO_COUNTS)
+
+  useEffect(() => {
+    if (!enabled) return
+    let cancelled = false
+
+    loadFacetCounts(request.scope, request.filters, request.withSpecs)
+      .then(loaded => {
+        if (!cancelled) setCounts(loaded)
+      })
+      .catch(error => console.error('Failed to load filter counts:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [request, enabled])
+
+  return counts
+}
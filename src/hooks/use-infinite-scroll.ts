@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useRef } from 'react'
+
+// How far below the viewport the sentinel starts loading the next page
+const ROOT_MARGIN = '400px'
+
+/**
+ * Returns a ref for a sentinel element; `onReachEnd` runs whenever it scrolls
+ * into view while `enabled` is true.
+ */
+export function useInfiniteScroll(onReachEnd: () => void, enabled: boolean) {
+  const observer = useRef<IntersectionObserver | null>(null)
+  const callback = useRef(onReachEnd)
+
+  useEffect(() => {
+    callback.current = onReachEnd
+  }, [onReachEnd])
+
+  useEffect(() => () => observer.current?.disconnect(), [])
+
+  return useCallback((node: HTMLElement | null) => {
+    observer.current?.disconnect()
+    observer.current = null
+    if (!node || !enabled || typeof IntersectionObserver === 'undefined') return
+
+    observer.current = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) callback.current()
+    }, { rootMargin: ROOT_MARGIN })
+    observer.current.observe(node)
+  }, [enabled])
+}
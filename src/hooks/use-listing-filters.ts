@@ -0,0 +1,22 @@
+import { useCallback, useMemo } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { applyListingFilters, parseListingFilters, type ListingFilters } from '@/lib/listing'
+
+export function useListingFilters() {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const filters = useMemo(() => parseListingFilters(searchParams), [searchParams])
+
+  // Every change pushes a history entry so back/forward steps through filters,
+  // unless it only rewrites the current URL. Changing anything but the page
+  // starts numbered paging over from page 1.
+  const updateFilters = useCallback((changes: Partial<ListingFilters>, options?: { replace?: boolean }) => {
+    setSearchParams(prev => {
+      const currentPage = parseListingFilters(prev).page
+      const pageChange = 'page' in changes || currentPage === 0 ? {} : { page: 1 }
+      return applyListingFilters(prev, { ...changes, ...pageChange })
+    }, options)
+  }, [setSearchParams])
+
+  return { filters, searchParams, updateFilters }
+}
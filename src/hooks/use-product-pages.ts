@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useStableValue } from '@/hooks/use-stable-value'
+import { PRODUCT_PAGE_SIZE, countProducts, selectProductPage, type ProductQuery } from '@/lib/product-query'
+import { selectCount, selectRows } from '@/lib/sql'
+import type { Product } from '@/types'
+
+interface ProductPagesOptions {
+  // 0 accumulates pages for infinite scroll; a positive number loads just that page
+  page: number
+  enabled: boolean
+}
+
+/**
+ * Pages through a product query with offset pagination. Changing the query
+ * starts over from an empty listing, and responses to superseded requests,
+ * counts included, are dropped.
+ */
+export function useProductPages(query: ProductQuery, { page, enabled }: ProductPagesOptions) {
+  const stableQuery = useStableValue(query)
+  const [products, setProducts] = useState<Product[]>([])
+  const [total, setTotal] = useState(0)
+  const [isLoading, setIsLoading] = useState(enabled)
+  const requestId = useRef(0)
+
+  // Reset while rendering, so the previous query's results are never shown for the new one
+  const [listedQuery, setListedQuery] = useState(stableQuery)
+  if (listedQuery !== stableQuery) {
+    setListedQuery(stableQuery)
+    setProducts([])
+    setTotal(0)
+    setIsLoading(enabled)
+  }
+
+  const fetchPage = useCallback(async (offset: number, append: boolean) => {
+    const id = ++requestId.current
+    setIsLoading(true)
+    try {
+      // A fresh page also recounts, so the total matches the rows it came with
+      const [pageProducts, count] = await Promise.all([
+        selectRows<Product>(selectProductPage(stableQuery, offset)),
+        append ? null : selectCount(countProducts(stableQuery))
+      ])
+      if (id !== requestId.current) return
+
+      setProducts(prev => append ? [...prev, ...pageProducts] : pageProducts)
+      if (count !== null) setTotal(count)
+    } catch (error) {
+      console.error('Failed to load products:', error)
+    } finally {
+      if (id === requestId.current) setIsLoading(false)
+    }
+  }, [stableQuery])
+
+  useEffect(() => {
+    if (!enabled) return
+    const offset = page > 0 ? (page - 1) * PRODUCT_PAGE_SIZE : 0
+    fetchPage(offset, false)
+  }, [fetchPage, page, enabled])
+
+  const hasMore = page === 0 && products.length < total
+
+  const loadMore = useCallback(() => {
+    if (isLoading || !hasMore) return
+    fetchPage(products.length, true)
+  }, [fetchPage, isLoading, hasMore, products.length])
+
+  return { products, total, hasMore, isLoading, loadMore }
+}
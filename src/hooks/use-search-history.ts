@@ -0,0 +1,149 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import {
+  RECENT_SEARCH_LIMIT,
+  countNewMatches,
+  createSavedSearchStore,
+  createSearchHistoryStore,
+  newSavedSearch,
+  newSearchHistoryEntry
+} from '@/lib/search-history'
+import type { Category, SavedSearch, SearchHistoryEntry, User } from '@/types'
+
+export function useSearchHistory(user: User | null, categories: Category[]) {
+  const [recentSearches, setRecentSearches] = useState<SearchHistoryEntry[]>([])
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([])
+  const [newMatchCounts, setNewMatchCounts] = useState<Record<string, number>>({})
+
+  const historyStore = useMemo(() => createSearchHistoryStore(user), [user])
+  const savedStore = useMemo(() => createSavedSearchStore(user), [user])
+
+  useEffect(() => {
+    let cancelled = false
+
+    Promise.all([historyStore.list(), savedStore.list()])
+      .then(([history, saved]) => {
+        if (cancelled) return
+        setRecentSearches(history.slice(0, RECENT_SEARCH_LIMIT))
+        setSavedSearches(saved)
+      })
+      .catch((error) => console.error('Failed to load search history:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [historyStore, savedStore])
+
+  // The lastViewedAt each count was taken for, so only new or viewed searches are recounted
+  const countedViews = useRef(new Map<string, string>())
+
+  // Category searches can only be counted once the categories are known
+  useEffect(() => {
+    countedViews.current.clear()
+  }, [categories])
+
+  useEffect(() => {
+    const ids = new Set(savedSearches.map(search => search.id))
+    setNewMatchCounts(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => ids.has(id))))
+
+    const stale = savedSearches.filter(search => countedViews.current.get(search.id) !== search.lastViewedAt)
+    for (const search of stale) {
+      countedViews.current.set(search.id, search.lastViewedAt)
+      countNewMatches(search, categories)
+        .then((count) => {
+          // Viewing the search again meanwhile makes this count out of date
+          if (countedViews.current.get(search.id) !== search.lastViewedAt) return
+          setNewMatchCounts(prev => ({ ...prev, [search.id]: count }))
+        })
+        .catch((error) => {
+          console.error('Failed to count new matches:', error)
+          if (countedViews.current.get(search.id) === search.lastViewedAt) countedViews.current.delete(search.id)
+        })
+    }
+  }, [savedSearches, categories])
+
+  // Repeating a search moves it to the top instead of adding a duplicate
+  const recordSearch = useCallback(async (query: string) => {
+    const entry = newSearchHistoryEntry(user, query)
+    const duplicates = recentSearches.filter(search => search.query.toLowerCase() === query.toLowerCase())
+    const kept = recentSearches.filter(search => !duplicates.includes(search))
+    const overflow = kept.slice(RECENT_SEARCH_LIMIT - 1)
+    setRecentSearches([entry, ...kept.slice(0, RECENT_SEARCH_LIMIT - 1)])
+
+    try {
+      await historyStore.create(entry)
+      await Promise.all([...duplicates, ...overflow].map(search => historyStore.remove(search.id)))
+    } catch (error) {
+      console.error('Failed to record search:', error)
+    }
+  }, [user, recentSearches, historyStore])
+
+  const removeRecentSearch = useCallback(async (id: string) => {
+    setRecentSearches(prev => prev.filter(search => search.id !== id))
+    try {
+      await historyStore.remove(id)
+    } catch (error) {
+      console.error('Failed to remove recent search:', error)
+    }
+  }, [historyStore])
+
+  const clearRecentSearches = useCallback(async () => {
+    const cleared = recentSearches
+    setRecentSearches([])
+    try {
+      await Promise.all(cleared.map(search => historyStore.remove(search.id)))
+    } catch (error) {
+      console.error('Failed to clear recent searches:', error)
+    }
+  }, [recentSearches, historyStore])
+
+  const saveSearch = useCallback(async (name: string, path: string) => {
+    const savedSearch = newSavedSearch(user, name, path)
+    // Nothing can be new to a search saved just now
+    countedViews.current.set(savedSearch.id, savedSearch.lastViewedAt)
+    setNewMatchCounts(prev => ({ ...prev, [savedSearch.id]: 0 }))
+    setSavedSearches(prev => [savedSearch, ...prev])
+    try {
+      await savedStore.create(savedSearch)
+    } catch (error) {
+      console.error('Failed to save search:', error)
+      setSavedSearches(prev => prev.filter(search => search.id !== savedSearch.id))
+      throw error
+    }
+  }, [user, savedStore])
+
+  const deleteSavedSearch = useCallback(async (id: string) => {
+    setSavedSearches(prev => prev.filter(search => search.id !== id))
+    try {
+      await savedStore.remove(id)
+    } catch (error) {
+      console.error('Failed to delete saved search:', error)
+    }
+  }, [savedStore])
+
+  // Resets the saved search's new-match count
+  const markSavedSearchViewed = useCallback(async (id: string) => {
+    const lastViewedAt = new Date().toISOString()
+    countedViews.current.set(id, lastViewedAt)
+    setNewMatchCounts(prev => ({ ...prev, [id]: 0 }))
+    setSavedSearches(prev => prev.map(search => search.id === id ? { ...search, lastViewedAt } : search))
+    try {
+      await savedStore.update(id, { lastViewedAt })
+    } catch (error) {
+      console.error('Failed to update saved search:', error)
+    }
+  }, [savedStore])
+
+  return {
+    recentSearches,
+    savedSearches,
+    newMatchCounts,
+    recordSearch,
+    removeRecentSearch,
+    clearRecentSearches,
+    saveSearch,
+    deleteSavedSearch,
+    markSavedSearchViewed
+  }
+}
+
+export type SearchHistory = ReturnType<typeof useSearchHistory>
@@ -0,0 +1,41 @@
+import { useState, useEffect } from 'react'
+import { loadSearchSuggestions, type SearchSuggestions } from '@/lib/search'
+import type { Category } from '@/types'
+
+// Typing pauses this long before suggestions are looked up
+const SUGGESTION_DELAY_MS = 150
+
+const NO_SUGGESTIONS: SearchSuggestions = { products: [], brands: [], categories: [] }
+
+interface SuggestionsResult {
+  query: string
+  suggestions: SearchSuggestions
+}
+
+/**
+ * Suggests products, brands and categories for search text as it is typed,
+ * looking them up once typing pauses. Suggestions for earlier text are dropped.
+ */
+export function useSearchSuggestions(query: string, categories: Category[]): SearchSuggestions {
+  const [result, setResult] = useState<SuggestionsResult | null>(null)
+
+  useEffect(() => {
+    if (!query.trim()) return
+
+    let cancelled = false
+    const timer = setTimeout(() => {
+      loadSearchSuggestions(query, categories)
+        .then(suggestions => {
+          if (!cancelled) setResult({ query, suggestions })
+        })
+        .catch(error => console.error('Failed to load search suggestions:', error))
+    }, SUGGESTION_DELAY_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query, categories])
+
+  return result?.query === query ? result.suggestions : NO_SUGGESTIONS
+}
@@ -0,0 +1,34 @@
+import { useState, useEffect } from 'react'
+import { findCorrection, type SpellingCorrection } from '@/lib/spelling'
+import type { Category } from '@/types'
+
+interface CorrectionResult {
+  query: string
+  correction: SpellingCorrection | null
+}
+
+/**
+ * Looks for a respelling of `query` if it finds nothing in the catalog. Each
+ * query is checked once, and the answer kept for as long as it stays the same.
+ */
+export function useSpellingCorrection(query: string, categories: Category[], enabled: boolean) {
+  const [result, setResult] = useState<CorrectionResult | null>(null)
+  const isChecked = result?.query === query
+
+  useEffect(() => {
+    if (!enabled || isChecked) return
+    let cancelled = false
+
+    findCorrection(query, categories)
+      .then(correction => {
+        if (!cancelled) setResult({ query, correction })
+      })
+      .catch(error => console.error('Failed to check spelling:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [query, categories, enabled, isChecked])
+
+  return isChecked ? result.correction : null
+}
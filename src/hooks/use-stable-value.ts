@@ -0,0 +1,10 @@
+import { useMemo } from 'react'
+
+/**
+ * Returns the same object for as long as `value` serialises the same, so a
+ * query rebuilt on every render only triggers effects when it really changes.
+ */
+export function useStableValue<T>(value: T): T {
+  const key = JSON.stringify(value)
+  return useMemo(() => JSON.parse(key) as T, [key])
+}
@@ -0,0 +1,51 @@
+import { blink } from '@/blink/client'
+import { createId } from '@/lib/ids'
+import { GUEST_STORAGE_KEYS, createRecordStore, getUserId } from '@/lib/record-store'
+import type { Address, SavedAddress, User } from '@/types'
+
+// The address the shopper picked in the header, remembered for this browser
+const DELIVERY_ADDRESS_KEY = 'amazon-clone:delivery-address'
+
+export type AddressDefault = 'shipping' | 'billing'
+
+export function createAddressStore(user: User | null) {
+  return createRecordStore<SavedAddress>(GUEST_STORAGE_KEYS.addresses, user, () => blink.db.addresses)
+}
+
+export function newSavedAddress(user: User | null, address: Address): SavedAddress {
+  const now = new Date().toISOString()
+  return {
+    ...address,
+    id: createId('address'),
+    userId: getUserId(user),
+    isDefaultShipping: false,
+    isDefaultBilling: false,
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+// Only the address fields, e.g. to copy a saved address onto an order
+export function toAddress({ name, street, city, state, zipCode, country }: Address): Address {
+  return { name, street, city, state, zipCode, country }
+}
+
+export function readDeliveryAddressId() {
+  try {
+    return localStorage.getItem(DELIVERY_ADDRESS_KEY)
+  } catch {
+    return null
+  }
+}
+
+export function writeDeliveryAddressId(id: string | null) {
+  try {
+    if (id) {
+      localStorage.setItem(DELIVERY_ADDRESS_KEY, id)
+    } else {
+      localStorage.removeItem(DELIVERY_ADDRESS_KEY)
+    }
+  } catch (error) {
+    console.error('Failed to save to local storage:', error)
+  }
+}
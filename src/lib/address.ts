@@ -0,0 +1,119 @@
+import { z } from 'zod'
+import type { Address } from '@/types'
+
+interface CountryRules {
+  code: string
+  name: string
+  postalCode: { label: string; pattern: RegExp; example: string }
+  // Unset when addresses in the country have no state or province line
+  region?: { label: string; options?: string[] }
+}
+
+const US_STATES = [
+  'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'DC', 'FL', 'GA', 'HI', 'ID', 'IL', 'IN', 'IA', 'KS',
+  'KY', 'LA', 'ME', 'MD', 'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ', 'NM', 'NY', 'NC',
+  'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC', 'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY'
+]
+
+const CANADIAN_PROVINCES = ['AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT']
+
+// Countries the store ships to, by ISO code, with how their addresses are written
+export const COUNTRIES: CountryRules[] = [
+  {
+    code: 'US',
+    name: 'United States',
+    postalCode: { label: 'ZIP code', pattern: /^\d{5}(-\d{4})?$/, example: '10001' },
+    region: { label: 'State', options: US_STATES }
+  },
+  {
+    code: 'CA',
+    name: 'Canada',
+    postalCode: { label: 'Postal code', pattern: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/i, example: 'K1A 0B1' },
+    region: { label: 'Province', options: CANADIAN_PROVINCES }
+  },
+  {
+    code: 'MX',
+    name: 'Mexico',
+    postalCode: { label: 'Postal code', pattern: /^\d{5}$/, example: '06000' },
+    region: { label: 'State' }
+  },
+  {
+    code: 'GB',
+    name: 'United Kingdom',
+    postalCode: { label: 'Postcode', pattern: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i, example: 'SW1A 1AA' }
+  },
+  {
+    code: 'DE',
+    name: 'Germany',
+    postalCode: { label: 'Postal code', pattern: /^\d{5}$/, example: '10115' }
+  },
+  {
+    code: 'FR',
+    name: 'France',
+    postalCode: { label: 'Postal code', pattern: /^\d{5}$/, example: '75001' }
+  }
+]
+
+export const EMPTY_ADDRESS: Address = {
+  name: '',
+  street: '',
+  city: '',
+  state: '',
+  zipCode: '',
+  country: 'US'
+}
+
+export function getCountryRules(code: string) {
+  return COUNTRIES.find(country => country.code === code)
+}
+
+// Required fields first, then the rules of the chosen country for postal code and region
+export const addressSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Enter a full name'),
+    street: z.string().trim().min(1, 'Enter a street address'),
+    city: z.string().trim().min(1, 'Enter a city'),
+    state: z.string().trim(),
+    zipCode: z.string().trim(),
+    country: z.string()
+  })
+  .superRefine((address, context) => {
+    const rules = getCountryRules(address.country)
+    if (!rules) {
+      context.addIssue({ code: 'custom', message: 'Choose a country we ship to', path: ['country'] })
+      return
+    }
+
+    const { postalCode, region } = rules
+    if (!address.zipCode) {
+      context.addIssue({ code: 'custom', message: `Enter a ${postalCode.label}`, path: ['zipCode'] })
+    } else if (!postalCode.pattern.test(address.zipCode)) {
+      context.addIssue({
+        code: 'custom',
+        message: `Enter a valid ${postalCode.label}, e.g. ${postalCode.example}`,
+        path: ['zipCode']
+      })
+    }
+
+    if (region && !address.state) {
+      context.addIssue({ code: 'custom', message: `Choose a ${region.label.toLowerCase()}`, path: ['state'] })
+    } else if (region?.options && !region.options.includes(address.state.toUpperCase())) {
+      context.addIssue({ code: 'custom', message: `Choose a valid ${region.label.toLowerCase()}`, path: ['state'] })
+    }
+  })
+
+export function getCountryName(code: string) {
+  return getCountryRules(code)?.name ?? code
+}
+
+export function formatAddress(address: Address) {
+  const region = [address.city, [address.state, address.zipCode].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ')
+  return [address.street, region, getCountryName(address.country)].filter(Boolean).join(', ')
+}
+
+// Short enough for the header, e.g. "New York 10001"
+export function formatShortAddress(address: Address) {
+  return [address.city, address.zipCode].filter(Boolean).join(' ')
+}
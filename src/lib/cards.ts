@@ -0,0 +1,48 @@
+export type CardBrand = 'Visa' | 'Mastercard' | 'American Express' | 'Discover' | 'Card'
+
+const CARD_BRANDS: { brand: CardBrand; pattern: RegExp }[] = [
+  { brand: 'Visa', pattern: /^4/ },
+  { brand: 'Mastercard', pattern: /^(5[1-5]|2[2-7])/ },
+  { brand: 'American Express', pattern: /^3[47]/ },
+  { brand: 'Discover', pattern: /^6(011|5)/ }
+]
+
+export function normalizeCardNumber(number: string) {
+  return number.replace(/[\s-]/g, '')
+}
+
+export function getCardBrand(number: string): CardBrand {
+  const digits = normalizeCardNumber(number)
+  return CARD_BRANDS.find(({ pattern }) => pattern.test(digits))?.brand ?? 'Card'
+}
+
+// The Luhn checksum every card number carries in its last digit
+export function passesLuhnCheck(number: string) {
+  const digits = normalizeCardNumber(number)
+  if (!/^\d{12,19}$/.test(digits)) return false
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+// Reads "MM/YY"; a card is good through the last day of its expiry month
+export function isExpired(expiry: string, now = new Date()) {
+  const match = expiry.trim().match(/^(\d{2})\s*\/\s*(\d{2})$/)
+  if (!match) return true
+  const month = Number(match[1])
+  const year = 2000 + Number(match[2])
+  if (month < 1 || month > 12) return true
+  return new Date(year, month, 1) <= now
+}
+
+// How the card is shown once the order is placed, e.g. "Visa ending in 4242"
+export function describeCard(number: string) {
+  return `${getCardBrand(number)} ending in ${normalizeCardNumber(number).slice(-4)}`
+}
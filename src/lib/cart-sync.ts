@@ -0,0 +1,101 @@
+import { blink } from '@/blink/client'
+import { createId } from '@/lib/ids'
+import { GUEST_STORAGE_KEYS } from '@/lib/record-store'
+
+const CHANNEL_NAME = 'amazon-clone:cart'
+// Written instead of posting where BroadcastChannel is missing; other tabs see a storage event
+const CHANGE_KEY = 'amazon-clone:cart-changed'
+const CHANGE_EVENT = 'changed'
+
+// Identifies this tab, so it can ignore its own realtime messages
+const TAB_ID = createId('tab')
+
+interface CartChange {
+  userId: string
+  tabId: string
+}
+
+const realtimeChannel = (userId: string) => `cart:${userId}`
+
+function getBroadcastChannel() {
+  return typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME)
+}
+
+/**
+ * Tells other tabs, and for signed-in shoppers other devices, that the cart
+ * changed so they re-read it.
+ */
+export function notifyCartChanged(userId: string, signedIn: boolean) {
+  const change: CartChange = { userId, tabId: TAB_ID }
+
+  const channel = getBroadcastChannel()
+  if (channel) {
+    channel.postMessage(change)
+    channel.close()
+  } else {
+    try {
+      localStorage.setItem(CHANGE_KEY, JSON.stringify({ ...change, at: Date.now() }))
+    } catch (error) {
+      console.error('Failed to save to local storage:', error)
+    }
+  }
+
+  if (signedIn) {
+    blink.realtime.publish(realtimeChannel(userId), CHANGE_EVENT, change).catch((error) => {
+      console.error('Failed to publish cart change:', error)
+    })
+  }
+}
+
+/**
+ * Calls `onChange` when another tab or device changes this shopper's cart.
+ * Returns a function that stops listening.
+ */
+export function subscribeToCartChanges(userId: string, signedIn: boolean, onChange: () => void) {
+  const isOtherTab = (change: Partial<CartChange> | null) =>
+    change?.userId === userId && change.tabId !== TAB_ID
+
+  const channel = getBroadcastChannel()
+  if (channel) {
+    channel.onmessage = (event: MessageEvent<CartChange>) => {
+      if (isOtherTab(event.data)) onChange()
+    }
+  }
+
+  // Guest carts live in localStorage, so their storage events are change notices too
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === GUEST_STORAGE_KEYS.cartItems && !signedIn) {
+      onChange()
+    } else if (event.key === CHANGE_KEY && event.newValue) {
+      try {
+        if (isOtherTab(JSON.parse(event.newValue))) onChange()
+      } catch {
+        // Not a change notice this version wrote
+      }
+    }
+  }
+  window.addEventListener('storage', handleStorage)
+
+  let unsubscribeRealtime: (() => void) | null = null
+  let stopped = false
+  if (signedIn) {
+    blink.realtime
+      .subscribe(realtimeChannel(userId), (message) => {
+        if (message.type === CHANGE_EVENT && isOtherTab(message.data)) onChange()
+      })
+      .then((unsubscribe) => {
+        if (stopped) unsubscribe()
+        else unsubscribeRealtime = unsubscribe
+      })
+      .catch((error) => {
+        console.error('Failed to subscribe to cart changes:', error)
+      })
+  }
+
+  return () => {
+    stopped = true
+    channel?.close()
+    window.removeEventListener('storage', handleStorage)
+    unsubscribeRealtime?.()
+  }
+}
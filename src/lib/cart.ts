@@ -0,0 +1,108 @@
+import { blink } from '@/blink/client'
+import { createId } from '@/lib/ids'
+import { getAvailableStock } from '@/lib/stock'
+import { GUEST_STORAGE_KEYS, createRecordStore, getUserId, readGuestRecords, writeGuestRecords } from '@/lib/record-store'
+import type { CartItem, CartItemStatus, Product, User } from '@/types'
+
+export function createCartStore(user: User | null) {
+  return createRecordStore<CartItem>(GUEST_STORAGE_KEYS.cartItems, user, () => blink.db.cartItems)
+}
+
+export function isActiveLine(item: CartItem) {
+  return item.status !== 'saved'
+}
+
+export interface PriceChange {
+  type: 'drop' | 'increase'
+  previousPrice: number
+}
+
+// Compared in cents so floating point noise never reads as a change
+export function getPriceChange(item: CartItem, product: Product | undefined): PriceChange | null {
+  if (!product || item.price === undefined) return null
+  const previous = Math.round(item.price * 100)
+  const current = Math.round(product.price * 100)
+  if (previous === current) return null
+  return { type: current < previous ? 'drop' : 'increase', previousPrice: item.price }
+}
+
+export function newCartItem(
+  user: User | null,
+  productId: string,
+  quantity: number,
+  price: number | undefined,
+  status: CartItemStatus = 'active'
+): CartItem {
+  const now = new Date().toISOString()
+  return {
+    id: createId('cart'),
+    userId: getUserId(user),
+    productId,
+    quantity,
+    status,
+    price,
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+/**
+ * Moves the cart a shopper built as a guest into their account at sign-in.
+ * Quantities for a product already in the account cart are summed, and every
+ * line is capped at the stock available. Lines saved for later carry over as
+ * they are unless the account already has the product.
+ */
+export async function mergeGuestCart(user: User) {
+  const guestItems = readGuestRecords<CartItem>(GUEST_STORAGE_KEYS.cartItems)
+  if (guestItems.length === 0) return
+
+  // Take the guest cart up front so an overlapping sign-in event cannot merge it twice
+  writeGuestRecords(GUEST_STORAGE_KEYS.cartItems, [])
+
+  const guestQuantities = new Map<string, number>()
+  // The price the shopper saw when adding, so a rise since then is still flagged
+  const guestPrices = new Map<string, number>()
+  for (const item of guestItems.filter(isActiveLine)) {
+    guestQuantities.set(item.productId, (guestQuantities.get(item.productId) ?? 0) + item.quantity)
+    if (item.price !== undefined && !guestPrices.has(item.productId)) guestPrices.set(item.productId, item.price)
+  }
+
+  const merged = new Set<string>()
+  try {
+    const accountStore = createCartStore(user)
+    // A guest cart holding only saved lines has no stock to check
+    const [accountItems, products]: [CartItem[], Product[]] = await Promise.all([
+      accountStore.list(),
+      guestQuantities.size > 0
+        ? blink.db.products.list({ where: { id: { in: [...guestQuantities.keys()] } } })
+        : []
+    ])
+    const productsById = new Map(products.map(product => [product.id, product]))
+
+    for (const [productId, guestQuantity] of guestQuantities) {
+      const existing = accountItems.find(item => item.productId === productId && isActiveLine(item))
+      const product = productsById.get(productId)
+      const quantity = Math.min((existing?.quantity ?? 0) + guestQuantity, product ? getAvailableStock(product) : 0)
+
+      if (existing && quantity > existing.quantity) {
+        await accountStore.update(existing.id, { quantity, updatedAt: new Date().toISOString() })
+      } else if (!existing && quantity > 0) {
+        await accountStore.create(newCartItem(user, productId, quantity, guestPrices.get(productId) ?? product?.price))
+      }
+      guestItems
+        .filter(item => item.productId === productId && isActiveLine(item))
+        .forEach(item => merged.add(item.id))
+    }
+
+    for (const item of guestItems.filter(line => !isActiveLine(line))) {
+      if (!accountItems.some(accountItem => accountItem.productId === item.productId)) {
+        await accountStore.create(newCartItem(user, item.productId, item.quantity, item.price, 'saved'))
+      }
+      merged.add(item.id)
+    }
+  } catch (error) {
+    // Keep whatever did not make it across for the next attempt
+    writeGuestRecords(GUEST_STORAGE_KEYS.cartItems, guestItems.filter(item => !merged.has(item.id)))
+    throw error
+  }
+}
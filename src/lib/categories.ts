@@ -0,0 +1,93 @@
+import type { Category } from '@/types'
+
+export interface CategoryNode extends Category {
+  children: CategoryNode[]
+}
+
+// Categories whose parent is missing are promoted to the top level
+export function buildCategoryTree(categories: Category[]): CategoryNode[] {
+  const nodes = new Map<string, CategoryNode>()
+  for (const category of categories) {
+    nodes.set(category.id, { ...category, children: [] })
+  }
+
+  const roots: CategoryNode[] = []
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined
+    if (parent && parent !== node && !isAncestor(node, parent, nodes)) {
+      parent.children.push(node)
+    } else {
+      roots.push(node)
+    }
+  }
+
+  return roots
+}
+
+// Guards against parentId cycles in the data
+function isAncestor(node: CategoryNode, candidate: CategoryNode, nodes: Map<string, CategoryNode>) {
+  const seen = new Set<string>()
+  let current: CategoryNode | undefined = candidate
+  while (current?.parentId && !seen.has(current.id)) {
+    if (current.parentId === node.id) return true
+    seen.add(current.id)
+    current = nodes.get(current.parentId)
+  }
+  return false
+}
+
+export function findCategory(categories: Category[], idOrSlug: string) {
+  return categories.find(category => category.slug === idOrSlug) ??
+    categories.find(category => category.id === idOrSlug)
+}
+
+// The category itself plus every category below it through parentId
+export function getDescendantCategories(categories: Category[], root: Category) {
+  const childrenByParent = new Map<string, Category[]>()
+  for (const category of categories) {
+    if (!category.parentId) continue
+    const siblings = childrenByParent.get(category.parentId) ?? []
+    siblings.push(category)
+    childrenByParent.set(category.parentId, siblings)
+  }
+
+  const found = new Map<string, Category>([[root.id, root]])
+  const queue = [root]
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    for (const child of childrenByParent.get(current.id) ?? []) {
+      if (found.has(child.id)) continue
+      found.set(child.id, child)
+      queue.push(child)
+    }
+  }
+
+  return [...found.values()]
+}
+
+// Ancestors from the top level down to the category itself
+export function getCategoryPath(categories: Category[], category: Category) {
+  const path = [category]
+  const seen = new Set([category.id])
+  let parentId = category.parentId
+
+  while (parentId && !seen.has(parentId)) {
+    const parent = categories.find(candidate => candidate.id === parentId)
+    if (!parent) break
+    path.unshift(parent)
+    seen.add(parent.id)
+    parentId = parent.parentId
+  }
+
+  return path
+}
+
+// Products reference their category by id, though some rows carry the slug
+export function getCategoryKeys(categories: Category[], root: Category) {
+  const keys = new Set<string>()
+  for (const category of getDescendantCategories(categories, root)) {
+    keys.add(category.id)
+    keys.add(category.slug)
+  }
+  return [...keys]
+}
@@ -0,0 +1,40 @@
+import { z } from 'zod'
+import { EMPTY_ADDRESS, addressSchema } from '@/lib/address'
+import { isExpired, passesLuhnCheck } from '@/lib/cards'
+
+export const CHECKOUT_STEPS = [
+  { id: 'address', label: 'Shipping address' },
+  { id: 'delivery', label: 'Delivery' },
+  { id: 'payment', label: 'Payment' },
+  { id: 'review', label: 'Review order' }
+] as const
+
+export type CheckoutStepId = typeof CHECKOUT_STEPS[number]['id']
+
+export const deliverySchema = z.object({
+  shippingSpeed: z.string().min(1, 'Choose a delivery speed')
+})
+
+export const paymentSchema = z
+  .object({
+    cardName: z.string().trim().min(1, 'Enter the name on the card'),
+    cardNumber: z.string().refine(passesLuhnCheck, 'Enter a valid card number'),
+    expiry: z
+      .string()
+      .regex(/^\d{2}\s*\/\s*\d{2}$/, 'Enter the expiry date as MM/YY')
+      .refine(expiry => !isExpired(expiry), 'This card has expired'),
+    cvc: z.string().regex(/^\d{3,4}$/, 'Enter the 3 or 4 digit security code'),
+    billingSameAsShipping: z.boolean(),
+    billingAddress: addressSchema.partial().optional()
+  })
+  // A separate billing address is only checked when it is going to be used
+  .superRefine((payment, context) => {
+    if (payment.billingSameAsShipping) return
+    const result = addressSchema.safeParse({ ...EMPTY_ADDRESS, ...payment.billingAddress })
+    for (const issue of result.error?.issues ?? []) {
+      context.addIssue({ code: 'custom', message: issue.message, path: ['billingAddress', ...issue.path] })
+    }
+  })
+
+export type DeliveryValues = z.infer<typeof deliverySchema>
+export type PaymentValues = z.infer<typeof paymentSchema>
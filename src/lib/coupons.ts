@@ -0,0 +1,197 @@
+import { blink } from '@/blink/client'
+import { findCategory, getCategoryKeys } from '@/lib/categories'
+import { createId } from '@/lib/ids'
+import { priceCart, type Discount, type PriceCartOptions } from '@/lib/pricing'
+import type { CartItem, Category, Coupon, CouponRedemption, Product, User } from '@/types'
+
+// A coupon as applied to a cart, with what is needed to re-check it as the cart changes
+export interface AppliedCoupon {
+  coupon: Coupon
+  // Category ids and slugs the coupon covers, subcategories included, or null for any
+  categoryKeys: string[] | null
+  // Times this shopper has already redeemed the coupon
+  redemptions: number
+}
+
+export type CouponResult =
+  | { ok: true; discount: Discount }
+  | { ok: false; reason: string }
+
+// Thrown when an order is placed with a coupon that no longer applies
+export class CouponError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CouponError'
+  }
+}
+
+export function normalizeCouponCode(code: string) {
+  return code.trim().toUpperCase()
+}
+
+function formatAmount(amount: number) {
+  return `$${amount.toFixed(2)}`
+}
+
+export function describeCoupon(coupon: Coupon) {
+  if (coupon.type === 'percent') return `${coupon.value}% off`
+  if (coupon.type === 'fixed') return `${formatAmount(coupon.value)} off`
+  return 'Free shipping'
+}
+
+async function countRedemptions(coupon: Coupon, user: User) {
+  return blink.db.couponRedemptions.count({
+    where: { couponId: coupon.id, userId: user.id }
+  })
+}
+
+async function resolveCategoryKeys(coupon: Coupon) {
+  if (!coupon.categories?.length) return null
+  const categories: Category[] = await blink.db.categories.list()
+  return coupon.categories.flatMap((idOrSlug) => {
+    const category = findCategory(categories, idOrSlug)
+    return category ? getCategoryKeys(categories, category) : [idOrSlug]
+  })
+}
+
+/**
+ * Looks up a code typed by the shopper. Resolves to the coupon ready to apply,
+ * or to the reason it cannot be used; only lookups that fail outright throw.
+ */
+export async function loadCoupon(code: string, user: User | null): Promise<AppliedCoupon | { reason: string }> {
+  const normalized = normalizeCouponCode(code)
+  if (!normalized) return { reason: 'Enter a promo code.' }
+
+  const [coupon]: Coupon[] = await blink.db.coupons.list({ where: { code: normalized }, limit: 1 })
+  if (!coupon) return { reason: `"${normalized}" is not a valid promo code.` }
+
+  // Usage is counted per account, so limited coupons need one
+  if (coupon.perUserLimit && !user) {
+    return { reason: `Sign in to use ${normalized}.` }
+  }
+
+  const [redemptions, categoryKeys] = await Promise.all([
+    user && coupon.perUserLimit ? countRedemptions(coupon, user) : Promise.resolve(0),
+    resolveCategoryKeys(coupon)
+  ])
+  return { coupon, categoryKeys, redemptions }
+}
+
+/**
+ * Checks an applied coupon against the cart as it stands and works out its
+ * discount. Minimum spend and percent or fixed amounts only count merchandise
+ * the coupon's category and brand restrictions allow.
+ */
+export function evaluateCoupon(
+  { coupon, categoryKeys, redemptions }: AppliedCoupon,
+  items: Pick<CartItem, 'productId' | 'quantity'>[],
+  getProduct: (productId: string) => Product | undefined,
+  now = new Date()
+): CouponResult {
+  const { code } = coupon
+
+  if (!coupon.active) return { ok: false, reason: `${code} is no longer available.` }
+  if (coupon.startsAt && new Date(coupon.startsAt) > now) {
+    return { ok: false, reason: `${code} is not active yet.` }
+  }
+  if (coupon.expiresAt && new Date(coupon.expiresAt) <= now) {
+    return { ok: false, reason: `${code} expired on ${new Date(coupon.expiresAt).toLocaleDateString()}.` }
+  }
+  if (coupon.perUserLimit && redemptions >= coupon.perUserLimit) {
+    return {
+      ok: false,
+      reason: coupon.perUserLimit === 1
+        ? `You have already used ${code}.`
+        : `You have already used ${code} the maximum of ${coupon.perUserLimit} times.`
+    }
+  }
+
+  const keys = categoryKeys ? new Set(categoryKeys) : null
+  const brands = coupon.brands?.length ? new Set(coupon.brands) : null
+  let eligibleCents = 0
+  for (const item of items) {
+    const product = getProduct(item.productId)
+    if (!product) continue
+    if (keys && !keys.has(product.category)) continue
+    if (brands && !brands.has(product.brand)) continue
+    eligibleCents += Math.round(product.price * 100) * item.quantity
+  }
+
+  if (eligibleCents === 0) {
+    const restrictions = [
+      brands && [...brands].join(', '),
+      keys && 'selected categories'
+    ].filter(Boolean).join(' in ')
+    return {
+      ok: false,
+      reason: restrictions
+        ? `${code} only applies to ${restrictions}, and nothing in your cart qualifies.`
+        : `Add items to your cart to use ${code}.`
+    }
+  }
+
+  const minSpendCents = Math.round((coupon.minSpend ?? 0) * 100)
+  if (eligibleCents < minSpendCents) {
+    const remaining = (minSpendCents - eligibleCents) / 100
+    return {
+      ok: false,
+      reason: `${code} needs a minimum spend of ${formatAmount(coupon.minSpend!)}${keys || brands ? ' on eligible items' : ''}. Add ${formatAmount(remaining)} more to use it.`
+    }
+  }
+
+  const label = `Promo ${code} (${describeCoupon(coupon)})`
+  if (coupon.type === 'free-shipping') {
+    return { ok: true, discount: { label, freeShipping: true } }
+  }
+  const discountCents = coupon.type === 'percent'
+    ? Math.round(eligibleCents * Math.min(100, coupon.value) / 100)
+    : Math.min(Math.round(coupon.value * 100), eligibleCents)
+  return { ok: true, discount: { label, amount: discountCents / 100 } }
+}
+
+/**
+ * Checks a coupon again as an order is placed. Its terms and the shopper's
+ * redemptions are read afresh, since either may have changed since it was
+ * applied, e.g. by an order placed from another tab.
+ */
+export async function recheckCoupon(
+  coupon: Coupon,
+  user: User,
+  items: Pick<CartItem, 'productId' | 'quantity'>[]
+): Promise<CouponResult> {
+  const [current, products]: [AppliedCoupon | { reason: string }, Product[]] = await Promise.all([
+    loadCoupon(coupon.code, user),
+    blink.db.products.list({ where: { id: { in: items.map(item => item.productId) } } })
+  ])
+  if ('reason' in current) return { ok: false, reason: current.reason }
+
+  const productsById = new Map(products.map(product => [product.id, product]))
+  return evaluateCoupon(current, items, productId => productsById.get(productId))
+}
+
+// Prices the cart with the coupon's discount when it qualifies, and says why when it does not
+export function priceCartWithCoupon(
+  items: CartItem[],
+  appliedCoupon: AppliedCoupon | null,
+  getProduct: (productId: string) => Product | undefined,
+  options: Omit<PriceCartOptions, 'discounts'> = {}
+) {
+  const couponResult = appliedCoupon ? evaluateCoupon(appliedCoupon, items, getProduct) : null
+  const breakdown = priceCart(items, getProduct, {
+    ...options,
+    discounts: couponResult?.ok ? [couponResult.discount] : []
+  })
+  return { breakdown, couponResult }
+}
+
+// Recorded when an order using the coupon is placed, so per-user limits hold
+export async function recordCouponRedemption(coupon: Coupon, user: User, orderId: string) {
+  const redemption: CouponRedemption = {
+    id: createId('redemption'),
+    couponId: coupon.id,
+    userId: user.id,
+    orderId,
+    createdAt: new Date().toISOString()
+  }
+  await blink.db.couponRedemptions.create(redemption)
+}
@@ -0,0 +1,174 @@
+import { RATING_OPTIONS, type ListingFilters } from '@/lib/listing'
+import { deriveSpecFacets, formatSpecValue, specFilterCondition, specValueCondition, type SpecFacet, type SpecValueCount } from '@/lib/spec-facets'
+import type { ListingScope } from '@/lib/product-query'
+import { allOf, identifier, joinSql, selectCount, selectRows, sql, valueList, type SqlFragment } from '@/lib/sql'
+import type { Product } from '@/types'
+
+export type FacetFilters = Pick<ListingFilters, 'brands' | 'minRating' | 'inStock' | 'onSale' | 'minPrice' | 'maxPrice' | 'specs'>
+
+type FacetKey = 'brands' | 'minRating' | 'inStock' | 'onSale' | 'price' | `spec:${string}`
+
+export interface FacetValueCount<T> {
+  value: T
+  count: number
+}
+
+export interface FacetCounts {
+  brands: FacetValueCount<string>[]
+  ratings: FacetValueCount<number>[]
+  inStock: number
+  onSale: number
+  priceBounds: { min: number; max: number }
+  specs: SpecFacet[]
+}
+
+export interface ActiveFacetChip {
+  key: string
+  label: string
+  // Filter changes that remove this chip
+  remove: Partial<ListingFilters>
+}
+
+export function isAvailable(product: Product) {
+  return product.inStock && product.stockQuantity > 0
+}
+
+export const ON_SALE_SQL = sql`(original_price > price)`
+// `isAvailable` for the products table
+export const AVAILABLE_SQL = sql`(CAST(in_stock AS INTEGER) > 0 AND stock_quantity > 0)`
+
+// `except` leaves one facet out, so its own values can be counted against the rest
+export function facetCondition(filters: FacetFilters, except?: FacetKey) {
+  const conditions: SqlFragment[] = []
+  if (except !== 'brands' && filters.brands.length > 0) {
+    conditions.push(sql`brand IN (${valueList(filters.brands)})`)
+  }
+  if (except !== 'minRating' && filters.minRating > 0) conditions.push(sql`rating >= ${filters.minRating}`)
+  if (except !== 'inStock' && filters.inStock) conditions.push(AVAILABLE_SQL)
+  if (except !== 'onSale' && filters.onSale) conditions.push(ON_SALE_SQL)
+  if (except !== 'price') {
+    if (filters.minPrice) conditions.push(sql`price >= ${parseFloat(filters.minPrice)}`)
+    if (filters.maxPrice) conditions.push(sql`price <= ${parseFloat(filters.maxPrice)}`)
+  }
+  const exceptSpecKey = except?.startsWith('spec:') ? except.slice('spec:'.length) : undefined
+  conditions.push(specFilterCondition(filters.specs, exceptSpecKey))
+  return allOf(conditions)
+}
+
+function countWhere(condition: SqlFragment) {
+  return sql`SUM(CASE WHEN ${condition} THEN 1 ELSE 0 END)`
+}
+
+// Lays out the specification facets from the values in scope, then counts their options
+async function loadSpecFacets({ source, where }: ListingScope, filters: FacetFilters): Promise<SpecFacet[]> {
+  const [valueCounts, productCount] = await Promise.all([
+    selectRows<SpecValueCount>(sql`
+      SELECT spec.key AS key, spec.value AS value, COUNT(*) AS count
+      FROM ${source} AS listed, json_each(listed.specifications) AS spec
+      WHERE ${where} AND spec.type = 'text' AND spec.value <> ''
+      GROUP BY spec.key, spec.value
+    `),
+    selectCount(sql`SELECT COUNT(*) AS count FROM ${source} WHERE ${where}`)
+  ])
+
+  const layouts = deriveSpecFacets(valueCounts.map(row => ({ ...row, count: Number(row.count) })), productCount)
+  const options = layouts.flatMap(({ key, values }) => values.map(value => ({ key, value })))
+  if (options.length === 0) return []
+
+  const optionCounts = joinSql(options.map(({ key, value }, index) => {
+    const condition = sql`${specValueCondition(key, value)} AND ${facetCondition(filters, `spec:${key}`)}`
+    return sql`${countWhere(condition)} AS ${identifier(`option${index}`)}`
+  }), ', ')
+  const [counts] = await selectRows<Record<string, number | null>>(
+    sql`SELECT ${optionCounts} FROM ${source} WHERE ${where}`
+  )
+
+  let index = 0
+  return layouts.map(({ values, ...facet }) => ({
+    ...facet,
+    options: values.map(value => ({
+      value,
+      label: formatSpecValue(value, facet.unit),
+      count: Number(counts?.[`option${index++}`] ?? 0)
+    }))
+  }))
+}
+
+/**
+ * Counts each facet's values over the products in scope; every facet is
+ * counted against the selections in all the others.
+ * Specification facets only make sense within a category, so callers opt in.
+ */
+export async function loadFacetCounts(scope: ListingScope, filters: FacetFilters, withSpecs = false): Promise<FacetCounts> {
+  const { source, where } = scope
+  const ratingCounts = joinSql(RATING_OPTIONS.map(value =>
+    sql`${countWhere(sql`rating >= ${value} AND ${facetCondition(filters, 'minRating')}`)} AS ${identifier(`rating${value}`)}`
+  ), ', ')
+
+  const [brands, [summary], specs] = await Promise.all([
+    selectRows<FacetValueCount<string>>(sql`
+      SELECT brand AS value, ${countWhere(facetCondition(filters, 'brands'))} AS count
+      FROM ${source} WHERE ${where} AND brand <> '' GROUP BY brand
+    `),
+    selectRows<Record<string, number | null>>(sql`
+      SELECT MIN(price) AS min_price, MAX(price) AS max_price,
+        ${countWhere(sql`${AVAILABLE_SQL} AND ${facetCondition(filters, 'inStock')}`)} AS in_stock,
+        ${countWhere(sql`${ON_SALE_SQL} AND ${facetCondition(filters, 'onSale')}`)} AS on_sale,
+        ${ratingCounts}
+      FROM ${source} WHERE ${where}
+    `),
+    withSpecs ? loadSpecFacets(scope, filters) : []
+  ])
+
+  return {
+    brands: brands
+      .map(({ value, count }) => ({ value, count: Number(count) }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value)),
+    ratings: RATING_OPTIONS.map(value => ({ value, count: Number(summary?.[`rating${value}`] ?? 0) })),
+    inStock: Number(summary?.inStock ?? 0),
+    onSale: Number(summary?.onSale ?? 0),
+    priceBounds: {
+      min: Math.floor(Number(summary?.minPrice ?? 0)),
+      max: Math.ceil(Number(summary?.maxPrice ?? 0))
+    },
+    specs
+  }
+}
+
+export function getActiveFacetChips(filters: FacetFilters, specFacets: SpecFacet[] = []): ActiveFacetChip[] {
+  const chips: ActiveFacetChip[] = filters.brands.map(brand => ({
+    key: `brand:${brand}`,
+    label: brand,
+    remove: { brands: filters.brands.filter(other => other !== brand) }
+  }))
+
+  if (filters.minRating > 0) {
+    chips.push({ key: 'rating', label: `${filters.minRating}★ & Up`, remove: { minRating: 0 } })
+  }
+  if (filters.inStock) {
+    chips.push({ key: 'instock', label: 'In Stock', remove: { inStock: false } })
+  }
+  if (filters.onSale) {
+    chips.push({ key: 'sale', label: 'On Sale', remove: { onSale: false } })
+  }
+  if (filters.minPrice || filters.maxPrice) {
+    const label = filters.minPrice && filters.maxPrice
+      ? `$${filters.minPrice} - $${filters.maxPrice}`
+      : filters.minPrice ? `$${filters.minPrice} & Above` : `Up to $${filters.maxPrice}`
+    chips.push({ key: 'price', label, remove: { minPrice: '', maxPrice: '' } })
+  }
+
+  for (const [key, values] of Object.entries(filters.specs)) {
+    const unit = specFacets.find(facet => facet.key === key)?.unit
+    for (const value of values) {
+      const remaining = values.filter(other => other !== value)
+      chips.push({
+        key: `spec:${key}:${value}`,
+        label: `${key}: ${formatSpecValue(value, unit)}`,
+        remove: { specs: { ...filters.specs, [key]: remaining } }
+      })
+    }
+  }
+
+  return chips
+}
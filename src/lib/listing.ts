@@ -0,0 +1,137 @@
+export const SORT_OPTIONS = [
+  { value: 'featured', label: 'Featured' },
+  { value: 'price-low', label: 'Price: Low to High' },
+  { value: 'price-high', label: 'Price: High to Low' },
+  { value: 'rating', label: 'Customer Rating' },
+  { value: 'newest', label: 'Newest Arrivals' }
+] as const
+
+export type SortOption = typeof SORT_OPTIONS[number]['value']
+
+export const DEFAULT_SORT: SortOption = 'featured'
+
+export const RATING_OPTIONS = [4, 3, 2, 1] as const
+
+export interface ListingFilters {
+  query: string
+  sort: SortOption
+  minPrice: string
+  maxPrice: string
+  brands: string[]
+  minRating: number
+  inStock: boolean
+  onSale: boolean
+  // Selected values per specification key, e.g. { 'Storage': ['256GB'] }
+  specs: Record<string, string[]>
+  // 0 scrolls continuously; a positive number shows that numbered page
+  page: number
+}
+
+type ListingFilterValue = ListingFilters[keyof ListingFilters]
+
+// Each specification key gets its own repeated parameter, e.g. spec.Storage=256GB
+const SPEC_PARAM_PREFIX = 'spec.'
+
+// Query parameter used for each filter; defaults are left out of the URL
+const PARAM_NAMES: Record<Exclude<keyof ListingFilters, 'specs'>, string> = {
+  query: 'q',
+  sort: 'sort',
+  minPrice: 'min',
+  maxPrice: 'max',
+  brands: 'brand',
+  minRating: 'rating',
+  inStock: 'instock',
+  onSale: 'sale',
+  page: 'page'
+}
+
+export const DEFAULT_FILTERS: ListingFilters = {
+  query: '',
+  sort: DEFAULT_SORT,
+  minPrice: '',
+  maxPrice: '',
+  brands: [],
+  minRating: 0,
+  inStock: false,
+  onSale: false,
+  specs: {},
+  page: 0
+}
+
+function isSortOption(value: string | null): value is SortOption {
+  return SORT_OPTIONS.some(option => option.value === value)
+}
+
+function parsePrice(value: string | null) {
+  return value && !Number.isNaN(parseFloat(value)) ? value : ''
+}
+
+function parseSpecs(params: URLSearchParams) {
+  const specs: Record<string, string[]> = {}
+  for (const [name, value] of params) {
+    if (!name.startsWith(SPEC_PARAM_PREFIX) || !value) continue
+    const key = name.slice(SPEC_PARAM_PREFIX.length)
+    specs[key] = [...new Set([...(specs[key] ?? []), value])]
+  }
+  return specs
+}
+
+function parseRating(value: string | null) {
+  const rating = Number(value)
+  return RATING_OPTIONS.some(option => option === rating) ? rating : 0
+}
+
+function parsePage(value: string | null) {
+  const page = Number(value)
+  return Number.isInteger(page) && page > 0 ? page : 0
+}
+
+export function parseListingFilters(params: URLSearchParams): ListingFilters {
+  const sort = params.get(PARAM_NAMES.sort)
+
+  return {
+    query: params.get(PARAM_NAMES.query)?.trim() ?? '',
+    sort: isSortOption(sort) ? sort : DEFAULT_SORT,
+    minPrice: parsePrice(params.get(PARAM_NAMES.minPrice)),
+    maxPrice: parsePrice(params.get(PARAM_NAMES.maxPrice)),
+    brands: [...new Set(params.getAll(PARAM_NAMES.brands).filter(Boolean))],
+    minRating: parseRating(params.get(PARAM_NAMES.minRating)),
+    inStock: params.get(PARAM_NAMES.inStock) === '1',
+    onSale: params.get(PARAM_NAMES.onSale) === '1',
+    specs: parseSpecs(params),
+    page: parsePage(params.get(PARAM_NAMES.page))
+  }
+}
+
+export function applyListingFilters(params: URLSearchParams, changes: Partial<ListingFilters>) {
+  const next = new URLSearchParams(params)
+
+  for (const [key, value] of Object.entries(changes) as [keyof ListingFilters, ListingFilterValue | undefined][]) {
+    if (key === 'specs') {
+      applySpecs(next, value as ListingFilters['specs'] | undefined)
+      continue
+    }
+
+    const name = PARAM_NAMES[key]
+    next.delete(name)
+
+    if (Array.isArray(value)) {
+      value.forEach(item => next.append(name, item))
+    } else if (typeof value === 'boolean') {
+      if (value) next.set(name, '1')
+    } else if (value !== undefined && value !== '' && value !== DEFAULT_FILTERS[key]) {
+      next.set(name, String(value))
+    }
+  }
+
+  return next
+}
+
+function applySpecs(params: URLSearchParams, specs: ListingFilters['specs'] = {}) {
+  for (const name of [...params.keys()]) {
+    if (name.startsWith(SPEC_PARAM_PREFIX)) params.delete(name)
+  }
+  for (const [key, values] of Object.entries(specs)) {
+    values.forEach(value => params.append(`${SPEC_PARAM_PREFIX}${key}`, value))
+  }
+}
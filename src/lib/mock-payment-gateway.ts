@@ -0,0 +1,157 @@
+import { createId } from '@/lib/ids'
+import { normalizeCardNumber, passesLuhnCheck } from '@/lib/cards'
+import { PaymentError, type AuthorizeRequest, type Payment, type PaymentProvider } from '@/lib/payments'
+import type { PaymentStatus } from '@/types'
+
+// Payments are kept here so they can still be refunded after a reload
+const STORAGE_KEY = 'amazon-clone:mock-payments'
+
+type TestCardOutcome = 'approve' | 'decline' | 'insufficient_funds' | 'three_d_secure' | 'timeout'
+
+/**
+ * Card numbers with a fixed outcome, for trying every path through checkout.
+ * Any other number that passes the Luhn check is approved.
+ */
+export const TEST_CARDS: { number: string; outcome: TestCardOutcome; description: string }[] = [
+  { number: '4242424242424242', outcome: 'approve', description: 'Approved' },
+  { number: '4000000000000002', outcome: 'decline', description: 'Declined' },
+  { number: '4000000000009995', outcome: 'insufficient_funds', description: 'Declined for insufficient funds' },
+  { number: '4000000000003220', outcome: 'three_d_secure', description: 'Asks for 3-D Secure' },
+  { number: '4000000000000119', outcome: 'timeout', description: 'Times out' }
+]
+
+const DECLINE_REASONS: Partial<Record<TestCardOutcome, string>> = {
+  decline: 'Your card was declined.',
+  insufficient_funds: 'Your card has insufficient funds.'
+}
+
+interface MockGatewayOptions {
+  // Delay before every response, like a network round trip
+  latencyMs?: number
+  // How long a timing-out call hangs before it fails
+  timeoutMs?: number
+}
+
+const toCents = (dollars: number) => Math.round(dollars * 100)
+const toDollars = (cents: number) => cents / 100
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+function readPayments(): Record<string, Payment> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}')
+  } catch {
+    return {}
+  }
+}
+
+function writePayment(payment: Payment) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readPayments(), [payment.id]: payment }))
+  } catch (error) {
+    console.error('Failed to save to local storage:', error)
+  }
+  return payment
+}
+
+function getOutcome(cardNumber: string): TestCardOutcome {
+  const digits = normalizeCardNumber(cardNumber)
+  return TEST_CARDS.find(card => card.number === digits)?.outcome ?? 'approve'
+}
+
+/**
+ * A gateway that runs in the browser and never moves money. Outcomes depend
+ * only on the card number, so every run of a test card behaves the same.
+ */
+export function createMockPaymentGateway({ latencyMs = 400, timeoutMs = 8000 }: MockGatewayOptions = {}): PaymentProvider {
+  const findPayment = (paymentId: string) => {
+    const payment = readPayments()[paymentId]
+    if (!payment) throw new PaymentError('not_found', `No payment ${paymentId}`)
+    return payment
+  }
+
+  const expectStatus = (payment: Payment, allowed: PaymentStatus[], operation: string) => {
+    if (!allowed.includes(payment.status)) {
+      throw new PaymentError('invalid_state', `Cannot ${operation} a payment that is ${payment.status}`)
+    }
+  }
+
+  return {
+    name: 'Mock gateway',
+    testCards: TEST_CARDS,
+
+    async authorize(request: AuthorizeRequest) {
+      await delay(latencyMs)
+      if (toCents(request.amount) <= 0) {
+        throw new PaymentError('invalid_amount', 'The amount must be greater than zero')
+      }
+
+      const outcome = getOutcome(request.card.number)
+      if (outcome === 'timeout') {
+        await delay(timeoutMs)
+        throw new PaymentError('timeout', 'The payment gateway did not respond in time')
+      }
+
+      const payment: Payment = {
+        id: createId('pay'),
+        status: 'authorized',
+        amount: request.amount,
+        capturedAmount: 0,
+        refundedAmount: 0
+      }
+      if (!passesLuhnCheck(request.card.number)) {
+        return writePayment({ ...payment, status: 'declined', declineReason: 'Your card number is invalid.' })
+      }
+      if (DECLINE_REASONS[outcome]) {
+        return writePayment({ ...payment, status: 'declined', declineReason: DECLINE_REASONS[outcome] })
+      }
+      if (outcome === 'three_d_secure') {
+        return writePayment({ ...payment, status: 'requires_action', action: { type: 'three_d_secure' } })
+      }
+      return writePayment(payment)
+    },
+
+    async completeAction(paymentId, passed) {
+      await delay(latencyMs)
+      const payment = findPayment(paymentId)
+      expectStatus(payment, ['requires_action'], 'complete an action on')
+      return writePayment(passed
+        ? { ...payment, status: 'authorized', action: undefined }
+        : { ...payment, status: 'declined', action: undefined, declineReason: 'Your bank could not verify the payment.' })
+    },
+
+    async capture(paymentId, amount) {
+      await delay(latencyMs)
+      const payment = findPayment(paymentId)
+      expectStatus(payment, ['authorized'], 'capture')
+      const cents = amount === undefined ? toCents(payment.amount) : toCents(amount)
+      if (cents <= 0 || cents > toCents(payment.amount)) {
+        throw new PaymentError('invalid_amount', 'Capture amount must be between zero and the authorized amount')
+      }
+      return writePayment({ ...payment, status: 'captured', capturedAmount: toDollars(cents) })
+    },
+
+    async refund(paymentId, amount) {
+      await delay(latencyMs)
+      const payment = findPayment(paymentId)
+      expectStatus(payment, ['captured', 'partially_refunded'], 'refund')
+      const refundableCents = toCents(payment.capturedAmount) - toCents(payment.refundedAmount)
+      const cents = amount === undefined ? refundableCents : toCents(amount)
+      if (cents <= 0 || cents > refundableCents) {
+        throw new PaymentError('invalid_amount', 'Refund amount must be between zero and what is left to refund')
+      }
+      const refundedCents = toCents(payment.refundedAmount) + cents
+      return writePayment({
+        ...payment,
+        status: refundedCents === toCents(payment.capturedAmount) ? 'refunded' : 'partially_refunded',
+        refundedAmount: toDollars(refundedCents)
+      })
+    },
+
+    async void(paymentId) {
+      await delay(latencyMs)
+      const payment = findPayment(paymentId)
+      expectStatus(payment, ['authorized', 'requires_action'], 'void')
+      return writePayment({ ...payment, status: 'voided', action: undefined })
+    }
+  }
+}
@@ -0,0 +1,154 @@
+import { blink } from '@/blink/client'
+import { CouponError, recheckCoupon, recordCouponRedemption, type CouponResult } from '@/lib/coupons'
+import { createId } from '@/lib/ids'
+import { getPaymentProvider, type Payment } from '@/lib/payments'
+import type { PriceBreakdown } from '@/lib/pricing'
+import type { Address, Coupon, Order, OrderItem, PaymentStatus, User } from '@/types'
+
+export interface NewOrder {
+  // Chosen before the order is written, so the payment can reference it
+  id: string
+  user: User
+  breakdown: PriceBreakdown
+  shippingAddress: Address
+  billingAddress: Address
+  paymentMethod: string
+  // An authorized payment for the breakdown's total
+  payment: Payment
+  // The coupon behind the breakdown's discount, if one applied
+  coupon: Coupon | null
+}
+
+/**
+ * Writes the order and its items, each item keeping the unit price it was
+ * bought at. If the items cannot be written the order is deleted again, so
+ * no order is left without its items, and if the order cannot be written at
+ * all its payment is voided. The same goes for a coupon that no longer
+ * applies, which rejects the order with a CouponError.
+ */
+export async function placeOrder({
+  id,
+  user,
+  breakdown,
+  shippingAddress,
+  billingAddress,
+  paymentMethod,
+  payment,
+  coupon
+}: NewOrder): Promise<Order> {
+  if (coupon) {
+    let couponResult: CouponResult
+    try {
+      couponResult = await recheckCoupon(coupon, user, breakdown.lines)
+    } catch (error) {
+      await voidPayment(payment)
+      throw error
+    }
+    if (!couponResult.ok) {
+      await voidPayment(payment)
+      throw new CouponError(couponResult.reason)
+    }
+  }
+
+  const now = new Date().toISOString()
+  const order: Order = {
+    id,
+    userId: user.id,
+    totalAmount: breakdown.total,
+    status: 'placed',
+    shippingAddress,
+    billingAddress,
+    paymentMethod,
+    paymentStatus: payment.status,
+    paymentId: payment.id,
+    subtotal: breakdown.subtotal,
+    shippingCost: breakdown.shipping,
+    discountAmount: breakdown.discountTotal,
+    taxAmount: breakdown.tax,
+    shippingSpeed: breakdown.shippingSpeed.id,
+    couponCode: coupon?.code,
+    createdAt: now,
+    updatedAt: now
+  }
+  const items: OrderItem[] = breakdown.lines.map(line => ({
+    id: createId('item'),
+    orderId: order.id,
+    productId: line.productId,
+    quantity: line.quantity,
+    price: line.unitPrice,
+    createdAt: now
+  }))
+
+  try {
+    await blink.db.orders.create(order)
+  } catch (error) {
+    await voidPayment(payment)
+    throw error
+  }
+  try {
+    await blink.db.orderItems.createMany(items)
+  } catch (error) {
+    try {
+      await blink.db.orders.delete(order.id)
+    } catch (deleteError) {
+      console.error('Failed to delete incomplete order:', deleteError)
+    }
+    await voidPayment(payment)
+    throw error
+  }
+
+  // The order stands even if this fails; it only loosens the coupon's usage limit
+  if (coupon) {
+    try {
+      await recordCouponRedemption(coupon, user, order.id)
+    } catch (error) {
+      console.error('Failed to record coupon redemption:', error)
+    }
+  }
+
+  return { ...order, items }
+}
+
+async function voidPayment(payment: Payment) {
+  try {
+    await getPaymentProvider().void(payment.id)
+  } catch (error) {
+    console.error('Failed to void payment:', error)
+  }
+}
+
+async function updateOrder(order: Order, changes: Partial<Order>) {
+  const updated = { ...changes, updatedAt: new Date().toISOString() }
+  await blink.db.orders.update(order.id, updated)
+  return { ...order, ...updated }
+}
+
+/**
+ * Takes the money for an authorized order. Until this succeeds the order
+ * stays authorized, and cancelling it releases the hold instead.
+ */
+export async function captureOrderPayment(order: Order): Promise<Order> {
+  if (!order.paymentId) throw new Error(`Order ${order.id} has no payment`)
+  const payment = await getPaymentProvider().capture(order.paymentId)
+  return updateOrder(order, { paymentStatus: payment.status })
+}
+
+// Payments that cancelling can still give back
+const REVERSIBLE_PAYMENT_STATUSES: PaymentStatus[] = ['authorized', 'captured', 'partially_refunded']
+
+export function canCancelOrder(order: Order) {
+  return order.status === 'placed' && Boolean(order.paymentId) && REVERSIBLE_PAYMENT_STATUSES.includes(order.paymentStatus)
+}
+
+/**
+ * Cancels an order and gives the shopper's money back: a hold that was never
+ * captured is voided, anything captured is refunded in full.
+ */
+export async function cancelOrder(order: Order): Promise<Order> {
+  if (!canCancelOrder(order)) throw new Error(`Order ${order.id} cannot be cancelled`)
+  const provider = getPaymentProvider()
+  const payment = order.paymentStatus === 'authorized'
+    ? await provider.void(order.paymentId!)
+    : await provider.refund(order.paymentId!)
+  return updateOrder(order, { status: 'cancelled', paymentStatus: payment.status })
+}
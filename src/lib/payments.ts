@@ -0,0 +1,78 @@
+import { createMockPaymentGateway } from '@/lib/mock-payment-gateway'
+import type { PaymentStatus } from '@/types'
+
+export interface CardDetails {
+  number: string
+  name: string
+  // MM/YY
+  expiry: string
+  cvc: string
+}
+
+export interface AuthorizeRequest {
+  // Dollars, as on the order
+  amount: number
+  currency: string
+  card: CardDetails
+  // The order the payment is for, so the gateway's records can be matched up
+  reference: string
+}
+
+// Something the shopper has to do before the payment can go on
+export interface PaymentAction {
+  type: 'three_d_secure'
+  // Where a real gateway hosts the challenge; the mock has none
+  url?: string
+}
+
+export interface Payment {
+  id: string
+  status: PaymentStatus
+  amount: number
+  capturedAmount: number
+  refundedAmount: number
+  // Set when status is requires_action
+  action?: PaymentAction
+  // Set when status is declined, in words fit to show the shopper
+  declineReason?: string
+}
+
+export type PaymentErrorCode = 'timeout' | 'not_found' | 'invalid_state' | 'invalid_amount' | 'gateway_error'
+
+/**
+ * A call the gateway could not complete. Declines are not errors: they come
+ * back as a payment with status `declined`.
+ */
+export class PaymentError extends Error {
+  readonly code: PaymentErrorCode
+
+  constructor(code: PaymentErrorCode, message: string) {
+    super(message)
+    this.name = 'PaymentError'
+    this.code = code
+  }
+}
+
+/**
+ * What checkout and refunds need from a payment gateway. Amounts are in
+ * dollars; leaving one out captures or refunds whatever is left.
+ */
+export interface PaymentProvider {
+  readonly name: string
+  // Card numbers with known outcomes, for gateways running in test mode
+  readonly testCards?: { number: string; description: string }[]
+  authorize: (request: AuthorizeRequest) => Promise<Payment>
+  // Finishes a requires_action payment once the shopper has passed or failed the challenge
+  completeAction: (paymentId: string, passed: boolean) => Promise<Payment>
+  capture: (paymentId: string, amount?: number) => Promise<Payment>
+  refund: (paymentId: string, amount?: number) => Promise<Payment>
+  void: (paymentId: string) => Promise<Payment>
+}
+
+let provider: PaymentProvider | null = null
+
+// Swap in a real gateway here; everything else codes against PaymentProvider
+export function getPaymentProvider() {
+  provider ??= createMockPaymentGateway()
+  return provider
+}
@@ -0,0 +1,191 @@
+import { PRICING, type PricingConfig, type ShippingSpeed, type ShippingZone } from '@/config/pricing'
+import { parseSpecNumber } from '@/lib/spec-facets'
+import type { Address, CartItem, Product } from '@/types'
+
+// Pounds per unit, for weights read from product specifications
+const POUNDS_PER_UNIT: Record<string, number> = {
+  lb: 1,
+  lbs: 1,
+  pound: 1,
+  pounds: 1,
+  oz: 1 / 16,
+  ounce: 1 / 16,
+  ounces: 1 / 16,
+  kg: 2.20462,
+  g: 0.00220462,
+  grams: 0.00220462
+}
+
+const COUNTRY_ALIASES: Record<string, string> = {
+  'UNITED STATES': 'US',
+  'UNITED STATES OF AMERICA': 'US',
+  USA: 'US',
+  CANADA: 'CA',
+  MEXICO: 'MX',
+  'UNITED KINGDOM': 'GB',
+  UK: 'GB',
+  GERMANY: 'DE',
+  FRANCE: 'FR'
+}
+
+export interface Discount {
+  label: string
+  // Dollars off the merchandise
+  amount?: number
+  // Waives the shipping charge, shown as a discount of the same size
+  freeShipping?: boolean
+}
+
+export interface PricedLine {
+  itemId: string
+  productId: string
+  quantity: number
+  unitPrice: number
+  total: number
+}
+
+export interface PriceBreakdown {
+  lines: PricedLine[]
+  itemCount: number
+  subtotal: number
+  shipping: number
+  shippingSpeed: ShippingSpeed
+  shippingZone: ShippingZone
+  // More merchandise that would make shipping free, or 0 if that cannot happen
+  amountToFreeShipping: number
+  discounts: { label: string; amount: number }[]
+  discountTotal: number
+  tax: number
+  taxRate: number
+  // Tax depends on the destination, so it is only charged once one is known
+  hasDestination: boolean
+  total: number
+}
+
+export interface PriceCartOptions {
+  address?: Address | null
+  // Id of one of the configured shipping speeds; unknown ids get the default
+  shippingSpeed?: string
+  discounts?: Discount[]
+  config?: PricingConfig
+}
+
+// Everything is added up in cents so totals never pick up floating point noise
+const toCents = (dollars: number) => Math.round(dollars * 100)
+const toDollars = (cents: number) => cents / 100
+
+export function getCountryCode(country: string) {
+  const normalized = country.trim().toUpperCase()
+  return COUNTRY_ALIASES[normalized] ?? normalized
+}
+
+// Reads the first specification whose name mentions weight, e.g. "Weight: 6.1 ounces"
+export function getProductWeightLb(product: Product, config = PRICING) {
+  const entry = Object.entries(product.specifications ?? {}).find(([key]) => /weight/i.test(key))
+  const parsed = entry ? parseSpecNumber(entry[1]) : null
+  const perUnit = parsed ? POUNDS_PER_UNIT[parsed.unit.toLowerCase()] : undefined
+  return parsed && perUnit ? parsed.value * perUnit : config.shipping.defaultItemWeightLb
+}
+
+export function getShippingZone(countryCode: string, config = PRICING): ShippingZone {
+  const { zones } = config.shipping
+  return zones.find(zone => zone.countries.includes(countryCode)) ??
+    zones.find(zone => zone.countries.includes('*')) ??
+    zones[zones.length - 1]
+}
+
+export function getShippingSpeed(speedId: string | undefined, config = PRICING): ShippingSpeed {
+  const { speeds } = config.shipping
+  return speeds.find(speed => speed.id === speedId) ?? speeds[0]
+}
+
+export function getTaxRate(address: Address, config = PRICING) {
+  const country = getCountryCode(address.country)
+  if (country === 'US') {
+    return config.tax.stateRates[address.state.trim().toUpperCase()] ?? 0
+  }
+  return config.tax.countryRates[country] ?? 0
+}
+
+/**
+ * Prices the cart lines for delivery to `address`: subtotal, shipping,
+ * discounts, tax and the grand total. Lines whose product has not loaded are
+ * left out. Without an address, shipping is quoted for the default country
+ * and no tax is charged yet. Without a speed, the default speed is quoted.
+ */
+export function priceCart(
+  items: CartItem[],
+  getProduct: (productId: string) => Product | undefined,
+  { address = null, shippingSpeed, discounts = [], config = PRICING }: PriceCartOptions = {}
+): PriceBreakdown {
+  let subtotalCents = 0
+  let weightLb = 0
+  const lines: PricedLine[] = []
+  for (const item of items) {
+    const product = getProduct(item.productId)
+    if (!product) continue
+    const lineCents = toCents(product.price) * item.quantity
+    subtotalCents += lineCents
+    weightLb += getProductWeightLb(product, config) * item.quantity
+    lines.push({
+      itemId: item.id,
+      productId: item.productId,
+      quantity: item.quantity,
+      unitPrice: product.price,
+      total: toDollars(lineCents)
+    })
+  }
+
+  // Merchandise discounts can take the subtotal to zero but not below
+  const appliedDiscounts: { label: string; amount: number }[] = []
+  let merchandiseDiscountCents = 0
+  for (const discount of discounts) {
+    if (!discount.amount) continue
+    const cents = Math.min(toCents(discount.amount), subtotalCents - merchandiseDiscountCents)
+    if (cents <= 0) continue
+    merchandiseDiscountCents += cents
+    appliedDiscounts.push({ label: discount.label, amount: toDollars(cents) })
+  }
+  const discountedCents = subtotalCents - merchandiseDiscountCents
+
+  const zone = getShippingZone(getCountryCode(address?.country || config.defaultCountry), config)
+  const speed = getShippingSpeed(shippingSpeed, config)
+  const canShipFree = zone.freeOverThreshold && speed.freeOverThreshold
+  const qualifiesForFreeShipping = canShipFree &&
+    discountedCents >= toCents(config.shipping.freeShippingThreshold)
+  const shippingCents = lines.length === 0 || qualifiesForFreeShipping
+    ? 0
+    : toCents(zone.baseRate + zone.perPound * Math.ceil(weightLb) + speed.surcharge)
+
+  const amountToFreeShippingCents = canShipFree && shippingCents > 0
+    ? toCents(config.shipping.freeShippingThreshold) - discountedCents
+    : 0
+
+  const shippingWaiver = discounts.find(discount => discount.freeShipping)
+  const shippingDiscountCents = shippingWaiver ? shippingCents : 0
+  if (shippingWaiver && shippingDiscountCents > 0) {
+    appliedDiscounts.push({ label: shippingWaiver.label, amount: toDollars(shippingDiscountCents) })
+  }
+
+  const taxRate = address ? getTaxRate(address, config) : 0
+  const taxableCents = discountedCents +
+    (config.tax.taxShipping ? shippingCents - shippingDiscountCents : 0)
+  const taxCents = Math.round(taxableCents * taxRate)
+
+  return {
+    lines,
+    itemCount: lines.reduce((count, line) => count + line.quantity, 0),
+    subtotal: toDollars(subtotalCents),
+    shipping: toDollars(shippingCents),
+    shippingSpeed: speed,
+    shippingZone: zone,
+    amountToFreeShipping: shippingWaiver ? 0 : toDollars(amountToFreeShippingCents),
+    discounts: appliedDiscounts,
+    discountTotal: toDollars(merchandiseDiscountCents + shippingDiscountCents),
+    tax: toDollars(taxCents),
+    taxRate,
+    hasDestination: address !== null,
+    total: toDollars(discountedCents + shippingCents - shippingDiscountCents + taxCents)
+  }
+}
+
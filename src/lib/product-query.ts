@@ -0,0 +1,62 @@
+import { AVAILABLE_SQL, facetCondition } from '@/lib/facets'
+import type { ListingFilters, SortOption } from '@/lib/listing'
+import { featuredScore } from '@/lib/ranking'
+import type { ProductSearch } from '@/lib/search'
+import { allOf, sql, valueList, type SqlFragment } from '@/lib/sql'
+
+export const PRODUCT_PAGE_SIZE = 20
+
+// The products a listing covers before any facet is applied
+export interface ListingScope {
+  // The products table, or a search's scored view of it
+  source: SqlFragment
+  where: SqlFragment
+}
+
+export interface ProductQuery extends ListingScope {
+  orderBy: SqlFragment
+}
+
+// Ties are broken by id, so offset pages neither repeat nor skip products
+const SORT_ORDER: Record<SortOption, SqlFragment> = {
+  featured: sql`${AVAILABLE_SQL} DESC, ${featuredScore()} DESC, id`,
+  'price-low': sql`price ASC, id`,
+  'price-high': sql`price DESC, id`,
+  rating: sql`rating DESC, id`,
+  newest: sql`created_at DESC, id`
+}
+
+export function buildListingScope(categoryKeys: string[] | null, search: ProductSearch | null = null): ListingScope {
+  const conditions: SqlFragment[] = []
+  if (search) conditions.push(search.condition)
+  if (categoryKeys) conditions.push(sql`category IN (${valueList(categoryKeys)})`)
+  return { source: search ? search.source : sql`products`, where: allOf(conditions) }
+}
+
+/**
+ * Translates listing filters, and the search if there is one, into a query on
+ * the products table. Searches sorted by "Featured" keep relevance order and
+ * only sink what is out of stock.
+ */
+export function buildProductQuery(
+  filters: ListingFilters,
+  categoryKeys: string[] | null,
+  search: ProductSearch | null = null
+): ProductQuery {
+  const { source, where } = buildListingScope(categoryKeys, search)
+  return {
+    source,
+    where: allOf([where, facetCondition(filters)]),
+    orderBy: search && filters.sort === 'featured'
+      ? sql`${AVAILABLE_SQL} DESC, ${search.relevance} DESC, id`
+      : SORT_ORDER[filters.sort]
+  }
+}
+
+export function selectProductPage({ source, where, orderBy }: ProductQuery, offset: number, limit = PRODUCT_PAGE_SIZE) {
+  return sql`SELECT * FROM ${source} WHERE ${where} ORDER BY ${orderBy} LIMIT ${limit} OFFSET ${offset}`
+}
+
+export function countProducts({ source, where }: ListingScope) {
+  return sql`SELECT COUNT(*) AS count FROM ${source} WHERE ${where}`
+}
@@ -0,0 +1,162 @@
+import { RATING_OPTIONS, type ListingFilters } from '@/lib/listing'
+
+/**
+ * Field qualifiers that can be typed into the search box alongside free text,
+ * e.g. `headphones brand:sony price:<150 rating:>=4 instock`.
+ *
+ * - `brand:<name>` (repeatable; quote names with spaces, `brand:"bang & olufsen"`),
+ *   spelt as in the catalog whatever the case it is typed in
+ * - `price:<150`, `price:<=150`, `price:>50`, `price:>=50` or `price:50-150`
+ * - `rating:4`, `rating:>=4` or `rating:4+` for 4 stars and up
+ * - `instock`, or `instock:yes` / `instock:no`
+ *
+ * Price bounds are inclusive either way, matching the price filter inputs.
+ */
+export type QueryQualifiers = Partial<Pick<ListingFilters, 'brands' | 'minPrice' | 'maxPrice' | 'minRating' | 'inStock'>>
+
+export interface QueryQualifierError {
+  token: string
+  message: string
+}
+
+export interface ParsedSearchQuery {
+  // The free text left once qualifiers are taken out
+  text: string
+  qualifiers: QueryQualifiers
+  errors: QueryQualifierError[]
+}
+
+const QUALIFIER_KEYS = ['brand', 'price', 'rating', 'instock'] as const
+type QualifierKey = typeof QUALIFIER_KEYS[number]
+
+// A qualifier with an optionally quoted value, or any other run of non-space text
+const TOKEN_PATTERN = /([a-z]+):"([^"]*)"?|\S+/gi
+
+const PRICE_PATTERN = /^\$?(\d+(?:\.\d+)?)$/
+const TRUE_VALUES = ['', 'yes', 'true', '1']
+const FALSE_VALUES = ['no', 'false', '0']
+
+function isQualifierKey(key: string): key is QualifierKey {
+  return QUALIFIER_KEYS.some(candidate => candidate === key)
+}
+
+function parsePriceAmount(value: string) {
+  return value.match(PRICE_PATTERN)?.[1] ?? null
+}
+
+function parsePriceQualifier(value: string): QueryQualifiers | string {
+  const range = value.split('-')
+  if (range.length === 2) {
+    const [min, max] = range.map(parsePriceAmount)
+    if (min === null || max === null) return 'Use numbers for both ends, e.g. price:50-150'
+    if (parseFloat(min) > parseFloat(max)) return 'The lower price comes first, e.g. price:50-150'
+    return { minPrice: min, maxPrice: max }
+  }
+
+  const comparison = value.match(/^(<=?|>=?)(.*)$/)
+  if (!comparison) return 'Use price:<150, price:>50 or price:50-150'
+  const amount = parsePriceAmount(comparison[2])
+  if (amount === null) return `"${comparison[2]}" is not a price`
+  return comparison[1].startsWith('<') ? { maxPrice: amount } : { minPrice: amount }
+}
+
+function parseRatingQualifier(value: string): QueryQualifiers | string {
+  const match = value.match(/^(?:>=)?(\d)\+?$/)
+  const rating = match ? Number(match[1]) : NaN
+  if (!RATING_OPTIONS.some(option => option === rating)) {
+    return `Use a minimum from ${RATING_OPTIONS[RATING_OPTIONS.length - 1]} to ${RATING_OPTIONS[0]} stars, e.g. rating:>=4`
+  }
+  return { minRating: rating }
+}
+
+function parseInStockQualifier(value: string): QueryQualifiers | string {
+  const normalized = value.toLowerCase()
+  if (TRUE_VALUES.includes(normalized)) return { inStock: true }
+  if (FALSE_VALUES.includes(normalized)) return { inStock: false }
+  return 'Use instock, instock:yes or instock:no'
+}
+
+// Brand filters match exactly, so `brand:sony` has to become the catalog's "Sony"
+function parseBrandQualifier(value: string, knownBrands: string[]): QueryQualifiers | string {
+  const name = value.trim()
+  if (!name) return 'Name a brand, e.g. brand:sony'
+  const known = knownBrands.find(brand => brand.toLowerCase() === name.toLowerCase())
+  return { brands: [known ?? name] }
+}
+
+function parseQualifier(key: QualifierKey, value: string, knownBrands: string[]): QueryQualifiers | string {
+  switch (key) {
+    case 'brand':
+      return parseBrandQualifier(value, knownBrands)
+    case 'price':
+      return parsePriceQualifier(value)
+    case 'rating':
+      return parseRatingQualifier(value)
+    case 'instock':
+      return parseInStockQualifier(value)
+  }
+}
+
+export function parseSearchQuery(query: string, knownBrands: string[] = []): ParsedSearchQuery {
+  const words: string[] = []
+  const qualifiers: QueryQualifiers = {}
+  const errors: QueryQualifierError[] = []
+
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const token = match[0]
+    const [key, value] = match[1] !== undefined
+      ? [match[1], match[2]]
+      : [token.split(':')[0], token.includes(':') ? token.slice(token.indexOf(':') + 1) : null]
+    const normalizedKey = key.toLowerCase()
+
+    // Anything that does not name a known field is ordinary search text
+    const isBareInStock = value === null && normalizedKey === 'instock'
+    if (!isQualifierKey(normalizedKey) || (value === null && !isBareInStock)) {
+      words.push(token)
+      continue
+    }
+
+    const result = parseQualifier(normalizedKey, value ?? '', knownBrands)
+    if (typeof result === 'string') {
+      errors.push({ token, message: result })
+    } else {
+      Object.assign(qualifiers, result.brands
+        ? { brands: [...(qualifiers.brands ?? []), ...result.brands] }
+        : result)
+    }
+  }
+
+  return { text: words.join(' '), qualifiers, errors }
+}
+
+// Listing filter changes that apply a parsed query on top of the current filters
+export function getQueryFilterChanges(parsed: ParsedSearchQuery, current: ListingFilters): Partial<ListingFilters> {
+  const { brands, ...rest } = parsed.qualifiers
+  return {
+    query: parsed.text,
+    ...rest,
+    ...(brands ? { brands: [...new Set([...current.brands, ...brands])] } : {})
+  }
+}
+
+function quote(value: string) {
+  return /\s/.test(value) ? `"${value}"` : value
+}
+
+// The inverse of parseSearchQuery, so the search box can show the active filters
+export function formatSearchQuery(filters: ListingFilters) {
+  const parts = filters.query ? [filters.query] : []
+
+  filters.brands.forEach(brand => parts.push(`brand:${quote(brand)}`))
+  if (filters.minPrice && filters.maxPrice) {
+    parts.push(`price:${filters.minPrice}-${filters.maxPrice}`)
+  } else if (filters.minPrice) {
+    parts.push(`price:>=${filters.minPrice}`)
+  } else if (filters.maxPrice) {
+    parts.push(`price:<=${filters.maxPrice}`)
+  }
+  if (filters.minRating > 0) parts.push(`rating:>=${filters.minRating}`)
+  if (filters.inStock) parts.push('instock')
+
+  return parts.join(' ')
+}
@@ -0,0 +1,32 @@
+import { FEATURED_RANKING } from '@/config/merchandising'
+import { AVAILABLE_SQL } from '@/lib/facets'
+import { sql } from '@/lib/sql'
+
+const MAX_RATING = 5
+
+// The prior every rating is pulled towards: the mean over all reviewed products
+const CATALOG_MEAN_RATING = sql`(SELECT COALESCE(AVG(rating), 0) FROM products WHERE review_count > 0)`
+
+/**
+ * The featured score of each row of the products table, for ORDER BY. Each
+ * signal is normalised to 0-1 before it is weighted.
+ */
+export function featuredScore(config = FEATURED_RANKING) {
+  const { weights } = config
+  const reviews = sql`MAX(COALESCE(review_count, 0), 0)`
+  const prior = config.priorReviewCount
+  const bayesianRating = sql`(${reviews} * COALESCE(rating, 0) + ${prior} * ${CATALOG_MEAN_RATING}) / (${reviews} + ${prior})`
+
+  const ageDays = sql`MAX(0, julianday('now') - julianday(created_at))`
+  const recency = sql`COALESCE(pow(0.5, ${ageDays} / ${config.recencyHalfLifeDays}), 0)`
+
+  const discountDepth = sql`CASE WHEN original_price > price
+    THEN MIN(1, (original_price - price) / original_price / ${config.fullDiscount}) ELSE 0 END`
+  const stockDepth = sql`CASE WHEN ${AVAILABLE_SQL}
+    THEN MIN(1, stock_quantity * 1.0 / ${config.wellStockedQuantity}) ELSE 0 END`
+
+  return sql`(${weights.rating} * ${bayesianRating} / ${MAX_RATING} +
+    ${weights.recency} * ${recency} +
+    ${weights.discount} * ${discountDepth} +
+    ${weights.stock} * ${stockDepth})`
+}
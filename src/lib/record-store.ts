@@ -0,0 +1,81 @@
+import type { TableOperations } from '@blinkdotnew/sdk'
+import type { User } from '@/types'
+
+// Shoppers who have not signed in keep their data in this browser only
+const GUEST_USER_ID = 'guest'
+
+export const GUEST_STORAGE_KEYS = {
+  cartItems: 'amazon-clone:guest-cart',
+  searchHistory: 'amazon-clone:recent-searches',
+  savedSearches: 'amazon-clone:saved-searches',
+  addresses: 'amazon-clone:addresses'
+} as const
+
+export function readGuestRecords<T>(key: string): T[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(key) ?? '[]')
+    return Array.isArray(stored) ? stored : []
+  } catch {
+    return []
+  }
+}
+
+export function writeGuestRecords<T>(key: string, records: T[]) {
+  try {
+    if (records.length > 0) {
+      localStorage.setItem(key, JSON.stringify(records))
+    } else {
+      localStorage.removeItem(key)
+    }
+  } catch (error) {
+    console.error('Failed to save to local storage:', error)
+  }
+}
+
+export function getUserId(user: User | null) {
+  return user?.id ?? GUEST_USER_ID
+}
+
+export type StoredRecord = { id: string; userId: string; createdAt: string }
+
+/**
+ * The few operations per-user records need, backed by a blink.db table for
+ * signed-in users and by localStorage for guests.
+ */
+export interface RecordStore<T extends StoredRecord> {
+  list: () => Promise<T[]>
+  create: (record: T) => Promise<void>
+  update: (id: string, changes: Partial<T>) => Promise<void>
+  remove: (id: string) => Promise<void>
+}
+
+export function createRecordStore<T extends StoredRecord>(
+  guestKey: string,
+  user: User | null,
+  getTable: () => TableOperations<T>
+): RecordStore<T> {
+  if (!user) {
+    const newestFirst = (records: T[]) => [...records].sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    return {
+      list: async () => newestFirst(readGuestRecords<T>(guestKey)),
+      create: async (record) => writeGuestRecords(guestKey, [record, ...readGuestRecords<T>(guestKey)]),
+      update: async (id, changes) => writeGuestRecords(
+        guestKey,
+        readGuestRecords<T>(guestKey).map(record => record.id === id ? { ...record, ...changes } : record)
+      ),
+      remove: async (id) => writeGuestRecords(guestKey, readGuestRecords<T>(guestKey).filter(record => record.id !== id))
+    }
+  }
+
+  const db = getTable()
+  return {
+    list: () => db.list({ where: { userId: user.id }, orderBy: { createdAt: 'desc' } }),
+    create: async (record) => {
+      await db.create(record)
+    },
+    update: async (id, changes) => {
+      await db.update(id, changes)
+    },
+    remove: (id) => db.delete(id)
+  }
+}
@@ -0,0 +1,68 @@
+import { blink } from '@/blink/client'
+import { createId } from '@/lib/ids'
+import { GUEST_STORAGE_KEYS, createRecordStore, getUserId } from '@/lib/record-store'
+import { parseListingFilters } from '@/lib/listing'
+import { findCategory, getCategoryKeys } from '@/lib/categories'
+import { buildProductQuery, countProducts } from '@/lib/product-query'
+import { buildProductSearch } from '@/lib/search'
+import { allOf, selectCount, sql } from '@/lib/sql'
+import type { Category, SavedSearch, SearchHistoryEntry, User } from '@/types'
+
+export const RECENT_SEARCH_LIMIT = 8
+
+export function createSearchHistoryStore(user: User | null) {
+  return createRecordStore<SearchHistoryEntry>(GUEST_STORAGE_KEYS.searchHistory, user, () => blink.db.searchHistory)
+}
+
+export function createSavedSearchStore(user: User | null) {
+  return createRecordStore<SavedSearch>(GUEST_STORAGE_KEYS.savedSearches, user, () => blink.db.savedSearches)
+}
+
+export function newSearchHistoryEntry(user: User | null, query: string): SearchHistoryEntry {
+  return {
+    id: createId('search'),
+    userId: getUserId(user),
+    query,
+    createdAt: new Date().toISOString()
+  }
+}
+
+export function newSavedSearch(user: User | null, name: string, path: string): SavedSearch {
+  const now = new Date().toISOString()
+  return {
+    id: createId('saved'),
+    userId: getUserId(user),
+    name,
+    path,
+    lastViewedAt: now,
+    createdAt: now
+  }
+}
+
+// The page parameter only says how the results were being viewed
+export function getSavedSearchPath(pathname: string, params: URLSearchParams) {
+  const next = new URLSearchParams(params)
+  next.delete('page')
+  next.sort()
+  const search = next.toString()
+  return search ? `${pathname}?${search}` : pathname
+}
+
+/**
+ * Counts the products added since a saved search was last viewed that its
+ * query, category and filters would all show.
+ */
+export async function countNewMatches(savedSearch: SavedSearch, categories: Category[]) {
+  const url = new URL(savedSearch.path, window.location.origin)
+  const filters = parseListingFilters(url.searchParams)
+  const slug = url.pathname.startsWith('/category/') ? decodeURIComponent(url.pathname.slice('/category/'.length)) : ''
+  const category = slug ? findCategory(categories, slug) : undefined
+  if (slug && !category) return 0
+
+  const categoryKeys = category ? getCategoryKeys(categories, category) : null
+  const { source, where } = buildProductQuery(filters, categoryKeys, buildProductSearch(filters.query, categories))
+  return selectCount(countProducts({
+    source,
+    where: allOf([where, sql`created_at > ${savedSearch.lastViewedAt}`])
+  }))
+}
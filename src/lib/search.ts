@@ -0,0 +1,253 @@
+import { allOf, identifier, joinSql, selectRows, sql, valueList, type SqlFragment } from '@/lib/sql'
+import type { Category, Product } from '@/types'
+
+// Relative importance of a hit in each field
+export const SEARCH_FIELD_WEIGHTS = {
+  title: 10,
+  brand: 6,
+  category: 4,
+  features: 2,
+  description: 1
+} as const
+
+type SearchField = keyof typeof SEARCH_FIELD_WEIGHTS
+
+// How much of a field's weight each kind of token match earns
+const EXACT_MATCH = 1
+const PREFIX_MATCH = 0.75
+const FUZZY_MATCH = 0.5
+
+// Bonus, in title-weight units, when the whole query appears verbatim in the title
+const TITLE_PHRASE_BONUS = 1
+
+const MIN_PREFIX_LENGTH = 2
+
+export interface SearchSuggestions {
+  products: Product[]
+  brands: string[]
+  categories: Category[]
+}
+
+// A search over the products table: `source` scores every word of the search
+// per row, `condition` keeps the rows matching them all, `relevance` sums the scores
+export interface ProductSearch {
+  source: SqlFragment
+  condition: SqlFragment
+  relevance: SqlFragment
+}
+
+export function normalize(text: string) {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+export function tokenize(text: string) {
+  const normalized = normalize(text)
+  return normalized ? normalized.split(' ') : []
+}
+
+// Typos allowed for a token of the given length; short words must match exactly
+export function maxTypos(length: number) {
+  if (length < 4) return 0
+  if (length < 8) return 1
+  return 2
+}
+
+// Levenshtein distance, giving up early once it is certain to exceed `max`
+export function editDistance(a: string, b: string, max = Infinity) {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      rowMin = Math.min(rowMin, current[j])
+    }
+    if (rowMin > max) return max + 1
+    previous = current
+  }
+
+  return previous[b.length]
+}
+
+function matchQuality(queryToken: string, fieldTokens: Set<string>) {
+  if (fieldTokens.has(queryToken)) return EXACT_MATCH
+
+  let best = 0
+  const typos = maxTypos(queryToken.length)
+  for (const token of fieldTokens) {
+    if (queryToken.length >= MIN_PREFIX_LENGTH && token.startsWith(queryToken)) {
+      best = Math.max(best, PREFIX_MATCH)
+    } else if (typos > 0 && best < FUZZY_MATCH) {
+      // Compare against the token's prefix too, so "hedphones" still finds "headphones"
+      const candidate = token.length > queryToken.length + typos
+        ? token.slice(0, queryToken.length)
+        : token
+      if (editDistance(queryToken, candidate, typos) <= typos) {
+        best = FUZZY_MATCH
+      }
+    }
+    if (best === PREFIX_MATCH) break
+  }
+  return best
+}
+
+// Read as spaces when matching words in SQL, roughly as `normalize` does
+const WORD_SEPARATORS = `-,./()[]"':;&+!?`
+
+// A text column with spaces around every word, so LIKE '% word%' finds word starts
+export function searchableColumn(column: string): SqlFragment {
+  let text = `COALESCE(${column}, '')`
+  for (const separator of WORD_SEPARATORS) {
+    text = `REPLACE(${text}, '${separator.replace("'", "''")}', ' ')`
+  }
+  return { text: `(' ' || ${text} || ' ')`, values: [] }
+}
+
+const SEARCHABLE_COLUMNS: Partial<Record<SearchField, SqlFragment>> = {
+  title: searchableColumn('title'),
+  brand: searchableColumn('brand'),
+  features: searchableColumn('features'),
+  description: searchableColumn('description')
+}
+
+// Spellings one edit away from a token, with `_` standing for any one letter
+function oneEditPatterns(token: string) {
+  const patterns = new Set<string>()
+  for (let i = 0; i <= token.length; i++) {
+    const head = token.slice(0, i)
+    const tail = token.slice(i)
+    patterns.add(`${head}_${tail}`)
+    if (tail) {
+      patterns.add(`${head}_${tail.slice(1)}`)
+      patterns.add(head + tail.slice(1))
+    }
+  }
+  return [...patterns]
+}
+
+// The patterns that keep the token's length, for comparing against word prefixes
+function substitutionPatterns(token: string) {
+  return [...token].map((_, i) => `${token.slice(0, i)}_${token.slice(i + 1)}`)
+}
+
+// SQL version of `matchQuality`. Only one typo is forgiven, even in long words
+function columnMatchQuality(column: SqlFragment, queryToken: string) {
+  const cases = [sql`WHEN ${column} LIKE ${`% ${queryToken} %`} THEN ${EXACT_MATCH}`]
+  if (queryToken.length >= MIN_PREFIX_LENGTH) {
+    cases.push(sql`WHEN ${column} LIKE ${`% ${queryToken}%`} THEN ${PREFIX_MATCH}`)
+  }
+  if (maxTypos(queryToken.length) > 0) {
+    // Whole words one edit away, or the start of words long enough to be compared by prefix
+    const fuzzy = [
+      ...oneEditPatterns(queryToken).map(pattern => sql`${column} LIKE ${`% ${pattern} %`}`),
+      ...substitutionPatterns(queryToken).map(pattern => sql`${column} LIKE ${`% ${pattern}__%`}`)
+    ]
+    cases.push(sql`WHEN (${joinSql(fuzzy, ' OR ')}) THEN ${FUZZY_MATCH}`)
+  }
+  return sql`(CASE ${joinSql(cases, ' ')} ELSE 0 END)`
+}
+
+// Category names are known up front, so their matches become lists of category keys
+function categoryMatchQuality(categories: Category[], queryToken: string) {
+  const keysByQuality = new Map<number, string[]>()
+  for (const category of categories) {
+    const quality = matchQuality(queryToken, new Set(tokenize(category.name)))
+    if (quality === 0) continue
+    keysByQuality.set(quality, [...(keysByQuality.get(quality) ?? []), category.id, category.slug])
+  }
+  if (keysByQuality.size === 0) return sql`0`
+
+  const cases = [...keysByQuality]
+    .sort(([a], [b]) => b - a)
+    .map(([quality, keys]) => sql`WHEN category IN (${valueList(keys)}) THEN ${quality}`)
+  return sql`(CASE ${joinSql(cases, ' ')} ELSE 0 END)`
+}
+
+/**
+ * Builds a product search that the database runs: every word has to match
+ * some field, and its best-weighted match counts.
+ */
+export function buildProductSearch(query: string, categories: Category[]): ProductSearch | null {
+  const queryTokens = [...new Set(tokenize(query))]
+  if (queryTokens.length === 0) return null
+
+  const tokenScores = queryTokens.map((queryToken) => {
+    const fieldScores = (Object.keys(SEARCH_FIELD_WEIGHTS) as SearchField[]).map((field) => {
+      const column = SEARCHABLE_COLUMNS[field]
+      const quality = column ? columnMatchQuality(column, queryToken) : categoryMatchQuality(categories, queryToken)
+      return sql`${SEARCH_FIELD_WEIGHTS[field]} * ${quality}`
+    })
+    return sql`MAX(${joinSql(fieldScores, ', ')})`
+  })
+
+  const phraseBonus = queryTokens.length > 1
+    ? sql`CASE WHEN ${SEARCHABLE_COLUMNS.title!} LIKE ${`% ${queryTokens.join(' ')}%`}
+        THEN ${TITLE_PHRASE_BONUS * SEARCH_FIELD_WEIGHTS.title} ELSE 0 END`
+    : sql`0`
+  const matchColumns = tokenScores.map((_, index) => identifier(`match_${index}`))
+  const bonusColumn = identifier('phrase_bonus')
+
+  return {
+    source: sql`(SELECT *, ${joinSql(tokenScores.map((score, index) => sql`${score} AS ${matchColumns[index]}`), ', ')},
+      ${phraseBonus} AS ${bonusColumn} FROM products)`,
+    condition: allOf(matchColumns.map(column => sql`${column} > 0`)),
+    relevance: sql`(${joinSql([...matchColumns, bonusColumn], ' + ')})`
+  }
+}
+
+/**
+ * Suggests products, brands and categories for search text as it is typed.
+ * Products are the search's best matches; brands and categories are matched by
+ * name alone.
+ */
+export async function loadSearchSuggestions(query: string, categories: Category[], limit = 5): Promise<SearchSuggestions> {
+  const queryTokens = [...new Set(tokenize(query))]
+  const search = buildProductSearch(query, categories)
+  if (!search) return { products: [], brands: [], categories: [] }
+
+  const brandScores = queryTokens.map(queryToken => columnMatchQuality(SEARCHABLE_COLUMNS.brand!, queryToken))
+  const [products, brands] = await Promise.all([
+    selectRows<Product>(sql`
+      SELECT * FROM ${search.source} WHERE ${search.condition} ORDER BY ${search.relevance} DESC, id LIMIT ${limit}
+    `),
+    selectRows<{ brand: string }>(sql`
+      SELECT brand FROM (SELECT DISTINCT brand FROM products WHERE brand <> '')
+      WHERE ${allOf(brandScores.map(score => sql`${score} > 0`))}
+      ORDER BY ${joinSql(brandScores, ' + ')} DESC, brand LIMIT ${limit}
+    `)
+  ])
+
+  return {
+    products,
+    brands: brands.map(row => row.brand),
+    categories: rankNames(categories, category => category.name, queryTokens, limit)
+  }
+}
+
+// Best combined match of all query tokens against a short name, or 0 if any token misses
+function scoreName(tokens: Set<string>, queryTokens: string[]) {
+  let score = 0
+  for (const queryToken of queryTokens) {
+    const quality = matchQuality(queryToken, tokens)
+    if (quality === 0) return 0
+    score += quality
+  }
+  return score
+}
+
+function rankNames<T>(items: T[], getName: (item: T) => string, queryTokens: string[], limit: number) {
+  return items
+    .map(item => ({ item, score: scoreName(new Set(tokenize(getName(item))), queryTokens) }))
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(match => match.item)
+}
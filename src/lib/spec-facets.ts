@@ -0,0 +1,166 @@
+import { allOf, anyOf, sql } from '@/lib/sql'
+
+// A key must appear on this share of the listing to be worth filtering on
+const MIN_KEY_COVERAGE = 0.3
+// Numeric keys with this few distinct values read better as a plain value list
+const MAX_DISCRETE_NUMBERS = 6
+const RANGE_BUCKETS = 4
+const MAX_VALUE_OPTIONS = 12
+
+// Range selections are stored as `range:<min>_<max>`, min inclusive, max exclusive
+const RANGE_PREFIX = 'range:'
+
+export interface SpecFacetOption {
+  value: string
+  label: string
+  count: number
+}
+
+export interface SpecFacet {
+  key: string
+  type: 'values' | 'range'
+  unit: string
+  options: SpecFacetOption[]
+}
+
+// How many products in a listing have one value for one key
+export interface SpecValueCount {
+  key: string
+  value: string
+  count: number
+}
+
+// A facet's options, before each is counted
+export type SpecFacetLayout = Omit<SpecFacet, 'options'> & { values: string[] }
+
+interface ParsedNumber {
+  value: number
+  unit: string
+}
+
+// Reads values such as "6.1 inches", "256GB" or "1,200 mAh"
+export function parseSpecNumber(raw: string): ParsedNumber | null {
+  const match = raw.trim().match(/^(-?\d[\d,]*(?:\.\d+)?)\s*([a-zA-Z%"]*)\s*$/)
+  if (!match) return null
+  const value = parseFloat(match[1].replace(/,/g, ''))
+  return Number.isNaN(value) ? null : { value, unit: match[2] }
+}
+
+function parseRange(value: string) {
+  if (!value.startsWith(RANGE_PREFIX)) return null
+  const [min, max] = value.slice(RANGE_PREFIX.length).split('_').map(Number)
+  return Number.isNaN(min) || Number.isNaN(max) ? null : { min, max }
+}
+
+function rangeValue(min: number, max: number) {
+  return `${RANGE_PREFIX}${min}_${max}`
+}
+
+export function formatSpecValue(value: string, unit = '') {
+  const range = parseRange(value)
+  if (!range) return value
+  const suffix = unit ? ` ${unit}` : ''
+  if (!Number.isFinite(range.min)) return `Under ${range.max}${suffix}`
+  if (!Number.isFinite(range.max)) return `${range.min}${suffix} & Above`
+  return `${range.min} - ${range.max}${suffix}`
+}
+
+function specColumn(key: string) {
+  return sql`json_extract(specifications, ${`$."${key}"`})`
+}
+
+// CAST reads the leading number as `parseSpecNumber` does
+export function specValueCondition(key: string, selected: string) {
+  const range = parseRange(selected)
+  if (!range) return sql`${specColumn(key)} = ${selected}`
+
+  const number = sql`CAST(REPLACE(TRIM(${specColumn(key)}), ',', '') AS REAL)`
+  const conditions = [sql`TRIM(${specColumn(key)}) GLOB '[0-9-]*'`]
+  if (Number.isFinite(range.min)) conditions.push(sql`${number} >= ${range.min}`)
+  if (Number.isFinite(range.max)) conditions.push(sql`${number} < ${range.max}`)
+  return allOf(conditions)
+}
+
+// Values within one key are alternatives; different keys must all match
+export function specFilterCondition(specs: Record<string, string[]>, exceptKey?: string) {
+  return allOf(Object.entries(specs)
+    .filter(([key, values]) => key !== exceptKey && values.length > 0)
+    .map(([key, values]) => anyOf(values.map(value => specValueCondition(key, value)))))
+}
+
+// Rounds a boundary to 1, 2 or 5 times a power of ten
+function niceNumber(value: number) {
+  if (value <= 0) return 0
+  const magnitude = 10 ** Math.floor(Math.log10(value))
+  const fraction = value / magnitude
+  const nice = fraction < 1.5 ? 1 : fraction < 3.5 ? 2 : fraction < 7.5 ? 5 : 10
+  return nice * magnitude
+}
+
+// Boundaries at the quartiles of the values, weighted by how many products have each
+function buildRangeBoundaries(numbers: { value: number; count: number }[]) {
+  const sorted = [...numbers].sort((a, b) => a.value - b.value)
+  const total = sorted.reduce((sum, number) => sum + number.count, 0)
+  const boundaries = new Set<number>()
+  for (let bucket = 1; bucket < RANGE_BUCKETS; bucket++) {
+    const position = Math.floor((bucket / RANGE_BUCKETS) * total)
+    let seen = 0
+    const quantile = sorted.find(number => (seen += number.count) > position)!.value
+    const boundary = niceNumber(quantile)
+    if (boundary > sorted[0].value && boundary <= sorted[sorted.length - 1].value) {
+      boundaries.add(boundary)
+    }
+  }
+  return [...boundaries].sort((a, b) => a - b)
+}
+
+function deriveSpecFacet(key: string, valueCounts: SpecValueCount[]): SpecFacetLayout | null {
+  const distinct = [...new Set(valueCounts.map(({ value }) => value))]
+  if (distinct.length < 2) return null
+
+  const parsed = valueCounts.map(({ value, count }) => ({ number: parseSpecNumber(value), count }))
+  const units = new Set(parsed.map(({ number }) => number?.unit ?? null))
+  const isNumeric = parsed.every(({ number }) => number !== null) && units.size === 1
+  const distinctNumbers = new Set(parsed.map(({ number }) => number?.value))
+
+  if (isNumeric && distinctNumbers.size > MAX_DISCRETE_NUMBERS) {
+    const boundaries = buildRangeBoundaries(parsed.map(({ number, count }) => ({ value: number!.value, count })))
+    if (boundaries.length > 0) {
+      const edges = [-Infinity, ...boundaries, Infinity]
+      return {
+        key,
+        type: 'range',
+        unit: parsed[0].number!.unit,
+        values: edges.slice(1).map((max, index) => rangeValue(edges[index], max))
+      }
+    }
+  }
+
+  // Numeric values sort by size, everything else alphabetically
+  const values = isNumeric
+    ? distinct.sort((a, b) => parseSpecNumber(a)!.value - parseSpecNumber(b)!.value)
+    : distinct.sort((a, b) => a.localeCompare(b))
+  return { key, type: 'values', unit: '', values: values.slice(0, MAX_VALUE_OPTIONS) }
+}
+
+/**
+ * Lays out filterable specification facets from how often each value occurs
+ * in a listing of `productCount` products. The caller counts the options.
+ */
+export function deriveSpecFacets(valueCounts: SpecValueCount[], productCount: number): SpecFacetLayout[] {
+  const countsByKey = new Map<string, SpecValueCount[]>()
+  for (const valueCount of valueCounts) {
+    countsByKey.set(valueCount.key, [...(countsByKey.get(valueCount.key) ?? []), valueCount])
+  }
+
+  const facets: SpecFacetLayout[] = []
+  for (const [key, counts] of countsByKey) {
+    const productsWithKey = counts.reduce((sum, { count }) => sum + count, 0)
+    if (productsWithKey < productCount * MIN_KEY_COVERAGE) continue
+
+    const facet = deriveSpecFacet(key, counts)
+    if (facet) facets.push(facet)
+  }
+
+  return facets.sort((a, b) => a.key.localeCompare(b.key))
+}
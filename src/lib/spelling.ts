@@ -0,0 +1,122 @@
+import { buildProductSearch, editDistance, maxTypos, searchableColumn, tokenize } from '@/lib/search'
+import { selectCount, selectRows, sql } from '@/lib/sql'
+import type { Category } from '@/types'
+
+// Words shorter than this are too ambiguous to correct
+const MIN_CORRECTABLE_LENGTH = 3
+// A close second candidate makes a correction a guess; the winner needs this
+// many times the second's catalog frequency to count as confident
+const CONFIDENT_FREQUENCY_RATIO = 2
+
+export interface SpellingCorrection {
+  query: string
+  // Confident corrections replace the results; the rest are only offered
+  confident: boolean
+}
+
+// How often each word appears across catalog titles, brands and category names
+export type Vocabulary = Map<string, number>
+
+function isCorrectable(token: string) {
+  return token.length >= MIN_CORRECTABLE_LENGTH && !/^\d+$/.test(token)
+}
+
+// One typo more than search tolerates, since search already forgave the rest
+function correctionLimit(token: string) {
+  return maxTypos(token.length) + 1
+}
+
+/**
+ * Loads the catalog words that could correct the words of a query: those of a
+ * length within reach of one of them. Titles and brands are split into words
+ * by the database, so the whole catalog counts without being downloaded.
+ */
+async function loadVocabulary(query: string, categories: Category[]): Promise<Vocabulary> {
+  const tokens = tokenize(query).filter(isCorrectable)
+  const vocabulary: Vocabulary = new Map()
+  if (tokens.length === 0) return vocabulary
+
+  const minLength = Math.max(MIN_CORRECTABLE_LENGTH, Math.min(...tokens.map(token => token.length - correctionLimit(token))))
+  const maxLength = Math.max(...tokens.map(token => token.length + correctionLimit(token)))
+  const rows = await selectRows<{ word: string; frequency: number }>(sql`
+    WITH RECURSIVE words(word, rest) AS (
+      SELECT '', ${searchableColumn('title')} || ${searchableColumn('brand')} FROM products
+      UNION ALL
+      SELECT LOWER(substr(rest, 1, instr(rest, ' ') - 1)), substr(rest, instr(rest, ' ') + 1) FROM words WHERE rest <> ''
+    )
+    SELECT word, COUNT(*) AS frequency FROM words
+    WHERE length(word) BETWEEN ${minLength} AND ${maxLength}
+      AND word NOT GLOB '*[^a-z0-9]*' AND word GLOB '*[a-z]*'
+    GROUP BY word
+  `)
+
+  rows.forEach(row => vocabulary.set(row.word, Number(row.frequency)))
+  for (const category of categories) {
+    for (const token of tokenize(category.name).filter(isCorrectable)) {
+      vocabulary.set(token, (vocabulary.get(token) ?? 0) + 1)
+    }
+  }
+  return vocabulary
+}
+
+interface WordCorrection {
+  word: string
+  confident: boolean
+}
+
+function correctWord(token: string, vocabulary: Vocabulary): WordCorrection | null {
+  const limit = correctionLimit(token)
+  const candidates: { word: string; distance: number; frequency: number }[] = []
+
+  for (const [word, frequency] of vocabulary) {
+    const distance = editDistance(token, word, limit)
+    if (distance <= limit) candidates.push({ word, distance, frequency })
+  }
+  if (candidates.length === 0) return null
+
+  candidates.sort((a, b) => a.distance - b.distance || b.frequency - a.frequency)
+  const [best, runnerUp] = candidates
+  const isClearWinner = !runnerUp ||
+    runnerUp.distance > best.distance ||
+    best.frequency >= runnerUp.frequency * CONFIDENT_FREQUENCY_RATIO
+
+  return {
+    word: best.word,
+    confident: best.distance <= Math.max(1, maxTypos(token.length)) && isClearWinner
+  }
+}
+
+function suggestCorrection(query: string, vocabulary: Vocabulary): SpellingCorrection | null {
+  let confident = true
+  let changed = false
+
+  const corrected = tokenize(query).map(token => {
+    if (!isCorrectable(token) || vocabulary.has(token)) return token
+    const correction = correctWord(token, vocabulary)
+    if (!correction) return token
+
+    changed = true
+    confident &&= correction.confident
+    return correction.word
+  }).join(' ')
+
+  return changed ? { query: corrected, confident } : null
+}
+
+async function countMatches(query: string, categories: Category[]) {
+  const search = buildProductSearch(query, categories)
+  return search ? selectCount(sql`SELECT COUNT(*) AS count FROM ${search.source} WHERE ${search.condition}`) : 0
+}
+
+/**
+ * Suggests a respelling of a query that finds nothing in the catalog,
+ * replacing each word the catalog does not know with its nearest known word.
+ * Returns null if the query finds something, or unless the corrected one does.
+ */
+export async function findCorrection(query: string, categories: Category[]): Promise<SpellingCorrection | null> {
+  if (await countMatches(query, categories) > 0) return null
+
+  const correction = suggestCorrection(query, await loadVocabulary(query, categories))
+  if (!correction || await countMatches(correction.query, categories) === 0) return null
+  return correction
+}
@@ -0,0 +1,68 @@
+import { blink } from '@/blink/client'
+
+export type SqlValue = string | number
+
+// SQL text with `?` placeholders and the values that fill them, in order
+export interface SqlFragment {
+  text: string
+  values: SqlValue[]
+}
+
+/**
+ * Builds a fragment from a template. Interpolated fragments are spliced in as
+ * SQL; any other value becomes a placeholder, so it is never parsed as SQL.
+ */
+export function sql(strings: TemplateStringsArray, ...parts: (SqlValue | SqlFragment)[]): SqlFragment {
+  let text = strings[0]
+  const values: SqlValue[] = []
+  parts.forEach((part, index) => {
+    if (typeof part === 'object') {
+      text += part.text
+      values.push(...part.values)
+    } else {
+      text += '?'
+      values.push(part)
+    }
+    text += strings[index + 1]
+  })
+  return { text, values }
+}
+
+export function joinSql(fragments: SqlFragment[], separator: string): SqlFragment {
+  return {
+    text: fragments.map(fragment => fragment.text).join(separator),
+    values: fragments.flatMap(fragment => fragment.values)
+  }
+}
+
+// A quoted column or table name, for names the code makes up rather than values
+export function identifier(name: string): SqlFragment {
+  return { text: `"${name.replace(/"/g, '""')}"`, values: [] }
+}
+
+// For IN (...)
+export function valueList(values: SqlValue[]): SqlFragment {
+  return joinSql(values.map(value => sql`${value}`), ', ')
+}
+
+// No conditions at all matches every row
+export function allOf(conditions: SqlFragment[]): SqlFragment {
+  return conditions.length > 0 ? sql`(${joinSql(conditions, ' AND ')})` : sql`1 = 1`
+}
+
+// No conditions at all matches no row
+export function anyOf(conditions: SqlFragment[]): SqlFragment {
+  return conditions.length > 0 ? sql`(${joinSql(conditions, ' OR ')})` : sql`1 = 0`
+}
+
+// Columns are snake_case in SQL; rows come back camelCased like `list` results
+export async function selectRows<T>(query: SqlFragment): Promise<T[]> {
+  const { rows } = await blink.db.sql<T>(query.text, query.values)
+  return rows
+}
+
+// Runs a `SELECT COUNT(*) AS count ...` query
+export async function selectCount(query: SqlFragment) {
+  const [row] = await selectRows<{ count: number }>(query)
+  return Number(row?.count ?? 0)
+}
@@ -0,0 +1,27 @@
+import { isAvailable } from '@/lib/facets'
+import type { CartItem, Product } from '@/types'
+
+// At or below this many units, shoppers see an "Only N left" warning
+export const LOW_STOCK_THRESHOLD = 10
+
+export function getAvailableStock(product: Product) {
+  return isAvailable(product) ? product.stockQuantity : 0
+}
+
+export function isLowStock(product: Product) {
+  const stock = getAvailableStock(product)
+  return stock > 0 && stock <= LOW_STOCK_THRESHOLD
+}
+
+export type CartLineIssue =
+  | { type: 'out-of-stock' }
+  | { type: 'insufficient-stock'; available: number }
+
+// What, if anything, stops a cart line from being bought as it stands
+export function getCartLineIssue(item: CartItem, product: Product | undefined): CartLineIssue | null {
+  if (!product) return null
+  const available = getAvailableStock(product)
+  if (available === 0) return { type: 'out-of-stock' }
+  if (item.quantity > available) return { type: 'insufficient-stock', available }
+  return null
+}
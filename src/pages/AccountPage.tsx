@@ -0,0 +1,103 @@
+import { Link } from 'react-router-dom'
+import { Package, ShoppingCart, LogOut, Bookmark, Trash2, MapPin } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { blink } from '@/blink/client'
+import type { SearchHistory } from '@/hooks/use-search-history'
+import type { User } from '@/types'
+
+interface AccountPageProps {
+  user: User | null
+  searchHistory: SearchHistory
+}
+
+export function AccountPage({ user, searchHistory }: AccountPageProps) {
+  if (!user) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Sign in to view your account</h3>
+        <Button
+          onClick={() => blink.auth.login()}
+          className="bg-amazon-orange hover:bg-orange-600 text-white"
+        >
+          Sign In
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-medium text-gray-900">Your Account</h1>
+        <p className="text-gray-600">{user.displayName || user.email}</p>
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <Link to="/orders" className="flex items-center gap-3 p-4 bg-white border rounded-lg hover:border-gray-300">
+          <Package className="h-6 w-6 text-amazon-blue" />
+          <div>
+            <div className="font-medium">Your Orders</div>
+            <div className="text-sm text-gray-600">Track and review past orders</div>
+          </div>
+        </Link>
+        <Link to="/cart" className="flex items-center gap-3 p-4 bg-white border rounded-lg hover:border-gray-300">
+          <ShoppingCart className="h-6 w-6 text-amazon-blue" />
+          <div>
+            <div className="font-medium">Your Cart</div>
+            <div className="text-sm text-gray-600">Review items ready for checkout</div>
+          </div>
+        </Link>
+        <Link to="/account/addresses" className="flex items-center gap-3 p-4 bg-white border rounded-lg hover:border-gray-300">
+          <MapPin className="h-6 w-6 text-amazon-blue" />
+          <div>
+            <div className="font-medium">Your Addresses</div>
+            <div className="text-sm text-gray-600">Edit addresses and choose your defaults</div>
+          </div>
+        </Link>
+      </div>
+
+      {/* Saved Searches */}
+      <div className="bg-white border rounded-lg p-4">
+        <h2 className="font-medium mb-3 flex items-center gap-2">
+          <Bookmark className="h-5 w-5 text-amazon-blue" />
+          Saved Searches
+        </h2>
+        {searchHistory.savedSearches.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            Use "Save search" on any search or category page to come back to it later.
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {searchHistory.savedSearches.map((savedSearch) => {
+              const newMatches = searchHistory.newMatchCounts[savedSearch.id] ?? 0
+              return (
+                <li key={savedSearch.id} className="flex items-center gap-3 py-2">
+                  <Link to={savedSearch.path} className="flex-1 text-amazon-blue hover:underline truncate">
+                    {savedSearch.name}
+                  </Link>
+                  {newMatches > 0 && (
+                    <Badge className="bg-amazon-orange text-white">{newMatches} new</Badge>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Delete saved search ${savedSearch.name}`}
+                    onClick={() => searchHistory.deleteSavedSearch(savedSearch.id)}
+                  >
+                    <Trash2 className="h-4 w-4 text-gray-500" />
+                  </Button>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+
+      <Button variant="outline" onClick={() => blink.auth.logout()}>
+        <LogOut className="h-4 w-4 mr-2" />
+        Sign Out
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,139 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import toast from 'react-hot-toast'
+import { MapPin, Plus } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { AddressFormDialog } from '@/components/address/AddressFormDialog'
+import { blink } from '@/blink/client'
+import type { AddressBook } from '@/hooks/use-address-book'
+import { formatAddress } from '@/lib/address'
+import type { AddressDefault } from '@/lib/address-book'
+import type { Address, SavedAddress, User } from '@/types'
+
+interface AddressesPageProps {
+  user: User | null
+  addressBook: AddressBook
+}
+
+export function AddressesPage({ user, addressBook }: AddressesPageProps) {
+  const { addresses, addAddress, updateAddress, deleteAddress, setDefaultAddress } = addressBook
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [editing, setEditing] = useState<SavedAddress | null>(null)
+
+  if (!user) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="text-lg font-medium text-gray-900 mb-4">Sign in to manage your addresses</h3>
+        <Button
+          onClick={() => blink.auth.login()}
+          className="bg-amazon-orange hover:bg-orange-600 text-white"
+        >
+          Sign In
+        </Button>
+      </div>
+    )
+  }
+
+  const openForm = (address: SavedAddress | null) => {
+    setEditing(address)
+    setIsFormOpen(true)
+  }
+
+  const handleSubmit = async (address: Address, defaults: AddressDefault[]) => {
+    try {
+      if (editing) {
+        await updateAddress(editing.id, address)
+        if (defaults.includes('shipping') && !editing.isDefaultShipping) await setDefaultAddress(editing.id, 'shipping')
+        if (defaults.includes('billing') && !editing.isDefaultBilling) await setDefaultAddress(editing.id, 'billing')
+        toast.success('Address updated')
+      } else {
+        await addAddress(address, defaults)
+        toast.success('Address added')
+      }
+      setIsFormOpen(false)
+    } catch {
+      toast.error("Couldn't save the address. Please try again.")
+    }
+  }
+
+  const handleSetDefault = async (id: string, kind: AddressDefault) => {
+    try {
+      await setDefaultAddress(id, kind)
+    } catch {
+      toast.error("Couldn't change your default address. Please try again.")
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteAddress(id)
+      toast.success('Address deleted')
+    } catch {
+      toast.error("Couldn't delete the address. Please try again.")
+    }
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link to="/account" className="text-sm text-amazon-blue hover:underline">Your Account</Link>
+          <h1 className="text-2xl font-medium text-gray-900">Your Addresses</h1>
+        </div>
+        <Button onClick={() => openForm(null)} className="bg-amazon-orange hover:bg-orange-600 text-white">
+          <Plus className="h-4 w-4 mr-1" />
+          Add address
+        </Button>
+      </div>
+
+      {addresses.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 text-center bg-white border rounded-lg">
+          <MapPin className="h-12 w-12 text-gray-400 mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No saved addresses</h3>
+          <p className="text-gray-500">Add an address to check out faster</p>
+        </div>
+      ) : (
+        <div className="grid sm:grid-cols-2 gap-4">
+          {addresses.map((address) => (
+            <div key={address.id} className="flex flex-col gap-3 p-4 bg-white border rounded-lg">
+              <div className="flex flex-wrap gap-1">
+                {address.isDefaultShipping && <Badge variant="secondary">Default shipping</Badge>}
+                {address.isDefaultBilling && <Badge variant="secondary">Default billing</Badge>}
+              </div>
+              <div className="text-sm">
+                <div className="font-medium">{address.name}</div>
+                <div className="text-gray-600">{formatAddress(address)}</div>
+              </div>
+              <div className="mt-auto flex flex-wrap gap-x-3 gap-y-1 text-sm">
+                <button onClick={() => openForm(address)} className="text-amazon-blue hover:underline">
+                  Edit
+                </button>
+                <button onClick={() => handleDelete(address.id)} className="text-red-600 hover:underline">
+                  Delete
+                </button>
+                {!address.isDefaultShipping && (
+                  <button onClick={() => handleSetDefault(address.id, 'shipping')} className="text-amazon-blue hover:underline">
+                    Set as default shipping
+                  </button>
+                )}
+                {!address.isDefaultBilling && (
+                  <button onClick={() => handleSetDefault(address.id, 'billing')} className="text-amazon-blue hover:underline">
+                    Set as default billing
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <AddressFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        address={editing}
+        onSubmit={handleSubmit}
+      />
+    </div>
+  )
+}
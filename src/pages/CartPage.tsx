@@ -0,0 +1,22 @@
+import { useNavigate } from 'react-router-dom'
+import { CartContents } from '@/components/cart/CartContents'
+import type { Cart } from '@/hooks/use-cart'
+
+interface CartPageProps {
+  cart: Cart
+}
+
+export function CartPage({ cart }: CartPageProps) {
+  const navigate = useNavigate()
+
+  return (
+    <div className="max-w-3xl mx-auto bg-white rounded-lg border p-6">
+      <h1 className="text-2xl font-medium text-gray-900">Shopping Cart</h1>
+      <CartContents
+        cart={cart}
+        onCheckout={() => navigate('/checkout')}
+        onContinueShopping={() => navigate('/')}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,339 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import toast from 'react-hot-toast'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { PriceSummary } from '@/components/cart/PriceSummary'
+import { CheckoutSteps } from '@/components/checkout/CheckoutSteps'
+import { DeliveryStep, type ShippingQuote } from '@/components/checkout/DeliveryStep'
+import { PaymentStep } from '@/components/checkout/PaymentStep'
+import { ReviewStep } from '@/components/checkout/ReviewStep'
+import { ShippingAddressStep } from '@/components/checkout/ShippingAddressStep'
+import { ThreeDSecureDialog } from '@/components/checkout/ThreeDSecureDialog'
+import { blink } from '@/blink/client'
+import { PRICING } from '@/config/pricing'
+import type { AddressBook } from '@/hooks/use-address-book'
+import type { Cart } from '@/hooks/use-cart'
+import { useCartPricing } from '@/hooks/use-cart-pricing'
+import { EMPTY_ADDRESS } from '@/lib/address'
+import { toAddress } from '@/lib/address-book'
+import { describeCard } from '@/lib/cards'
+import { getPriceChange } from '@/lib/cart'
+import type { DeliveryValues, PaymentValues } from '@/lib/checkout'
+import { CouponError, priceCartWithCoupon } from '@/lib/coupons'
+import { createId } from '@/lib/ids'
+import { captureOrderPayment, placeOrder } from '@/lib/orders'
+import { PaymentError, getPaymentProvider, type Payment } from '@/lib/payments'
+import { getCartLineIssue } from '@/lib/stock'
+import type { Address, Product, User } from '@/types'
+
+interface CheckoutPageProps {
+  user: User | null
+  cart: Cart
+  addressBook: AddressBook
+}
+
+type PricedCart = ReturnType<typeof priceCartWithCoupon>
+
+// An order whose payment is waiting on the shopper's bank
+interface PendingOrder {
+  id: string
+  payment: Payment
+  priced: PricedCart
+}
+
+const isSameAddress = (a: Address, b: Address) => JSON.stringify(toAddress(a)) === JSON.stringify(toAddress(b))
+
+// Bills to the default billing address when it differs from where the order ships
+function getDefaultPayment(shippingAddress: Address, defaultBilling: Address | null): PaymentValues {
+  return {
+    cardName: '',
+    cardNumber: '',
+    expiry: '',
+    cvc: '',
+    billingSameAsShipping: !defaultBilling || isSameAddress(defaultBilling, shippingAddress),
+    billingAddress: defaultBilling ? toAddress(defaultBilling) : EMPTY_ADDRESS
+  }
+}
+
+export function CheckoutPage({ user, cart, addressBook }: CheckoutPageProps) {
+  const navigate = useNavigate()
+  const { cartItems, appliedCoupon, refreshProducts, removeCoupon, completePurchase } = cart
+  const [step, setStep] = useState(0)
+  const { addresses, deliveryAddress, defaultBilling, addAddress } = addressBook
+  // Unset until the address step is done; the header's delivery address is offered first
+  const [chosenAddress, setChosenAddress] = useState<Address | null>(null)
+  const shippingAddress = chosenAddress ?? { ...EMPTY_ADDRESS, name: user?.displayName ?? '' }
+  const [delivery, setDelivery] = useState<DeliveryValues>({ shippingSpeed: PRICING.shipping.speeds[0].id })
+  // Unset until the payment step is done
+  const [payment, setPayment] = useState<PaymentValues | null>(null)
+  const paymentValues = payment ?? getDefaultPayment(shippingAddress, defaultBilling)
+  const [products, setProducts] = useState<Record<string, Product>>({})
+  const [isPlacing, setIsPlacing] = useState(false)
+  const [pendingOrder, setPendingOrder] = useState<PendingOrder | null>(null)
+  const [isVerifying, setIsVerifying] = useState(false)
+
+  const loadProducts = useCallback(async (productIds: string[]) => {
+    const loaded: Product[] = await blink.db.products.list({
+      where: { id: { in: productIds } }
+    })
+    const productMap = Object.fromEntries(loaded.map(product => [product.id, product]))
+    setProducts(productMap)
+    refreshProducts(loaded)
+    return productMap
+  }, [refreshProducts])
+
+  const productIdsKey = useMemo(
+    () => [...new Set(cartItems.map(item => item.productId))].sort().join(','),
+    [cartItems]
+  )
+
+  useEffect(() => {
+    if (!productIdsKey) return
+    loadProducts(productIdsKey.split(',')).catch((error) => {
+      console.error('Failed to load cart products:', error)
+    })
+  }, [productIdsKey, loadProducts])
+
+  const getProduct = useCallback((productId: string) => products[productId], [products])
+  // Tax needs the destination, so it is only charged once the address step is done
+  const address = step > 0 ? chosenAddress : null
+  const { breakdown, couponResult } = useCartPricing(cart, getProduct, { address, shippingSpeed: delivery.shippingSpeed })
+
+  const quotes: ShippingQuote[] = useMemo(() => PRICING.shipping.speeds.map((speed) => {
+    const quote = priceCartWithCoupon(cartItems, appliedCoupon, getProduct, { address, shippingSpeed: speed.id })
+    const waived = quote.couponResult?.ok && quote.couponResult.discount.freeShipping
+    return { speed, cost: waived ? 0 : quote.breakdown.shipping }
+  }), [cartItems, appliedCoupon, getProduct, address])
+
+  const billingAddress: Address = paymentValues.billingSameAsShipping
+    ? shippingAddress
+    : { ...EMPTY_ADDRESS, ...paymentValues.billingAddress }
+
+  const handleAddressSubmit = (address: Address, saveToAddressBook: boolean) => {
+    setChosenAddress(address)
+    setStep(1)
+    if (saveToAddressBook) {
+      addAddress(address).catch(() => {
+        toast.error("Couldn't save the address to your address book.")
+      })
+    }
+  }
+
+  const reportPaymentError = (error: unknown) => {
+    console.error('Failed to place order:', error)
+    if (error instanceof CouponError) {
+      removeCoupon()
+      toast.error(`${error.message} The code was removed and you have not been charged. Review your total and try again.`)
+      return
+    }
+    toast.error(error instanceof PaymentError && error.code === 'timeout'
+      ? 'Your payment timed out and you have not been charged. Please try again.'
+      : "Couldn't place your order. Please try again.")
+  }
+
+  // Writes the order once its payment is authorized, then captures the payment
+  const completeOrder = async (id: string, paid: Payment, { breakdown: finalBreakdown, couponResult: finalCoupon }: PricedCart) => {
+    if (!user) return
+    if (paid.status !== 'authorized') {
+      toast.error(paid.declineReason ?? 'Your payment was declined. Try another card.')
+      return
+    }
+
+    const order = await placeOrder({
+      id,
+      user,
+      breakdown: finalBreakdown,
+      shippingAddress,
+      billingAddress,
+      paymentMethod: describeCard(paymentValues.cardNumber),
+      payment: paid,
+      coupon: finalCoupon?.ok ? appliedCoupon!.coupon : null
+    })
+    completePurchase(finalBreakdown.lines.map(line => line.itemId))
+    // The order is placed either way; an uncaptured payment can still be voided by cancelling
+    try {
+      await captureOrderPayment(order)
+    } catch (error) {
+      console.error('Failed to capture payment:', error)
+    }
+    toast.success('Your order has been placed.')
+    navigate('/orders')
+  }
+
+  const handlePlaceOrder = async () => {
+    if (!user || !payment) return
+    setIsPlacing(true)
+    try {
+      // Stock and prices are checked again against the latest products before charging
+      const latest = await loadProducts(cartItems.map(item => item.productId))
+      const getLatest = (productId: string) => latest[productId]
+      const hasChanged = cartItems.some(item =>
+        getCartLineIssue(item, getLatest(item.productId)) ||
+        getPriceChange(item, getLatest(item.productId))?.type === 'increase'
+      )
+      if (hasChanged) {
+        toast.error('Some items in your cart have changed. Review them before placing your order.')
+        navigate('/cart')
+        return
+      }
+
+      const final = priceCartWithCoupon(cartItems, appliedCoupon, getLatest, {
+        address: shippingAddress,
+        shippingSpeed: delivery.shippingSpeed
+      })
+      if (final.breakdown.total > breakdown.total) {
+        toast.error(`Your order total changed to $${final.breakdown.total.toFixed(2)}. Review it and place your order again.`)
+        return
+      }
+
+      const id = createId('order')
+      const authorized = await getPaymentProvider().authorize({
+        amount: final.breakdown.total,
+        currency: 'USD',
+        card: {
+          number: payment.cardNumber,
+          name: payment.cardName,
+          expiry: payment.expiry,
+          cvc: payment.cvc
+        },
+        reference: id
+      })
+      if (authorized.status === 'requires_action') {
+        setPendingOrder({ id, payment: authorized, priced: final })
+        return
+      }
+      await completeOrder(id, authorized, final)
+    } catch (error) {
+      reportPaymentError(error)
+    } finally {
+      setIsPlacing(false)
+    }
+  }
+
+  const handleVerification = async (passed: boolean) => {
+    if (!pendingOrder) return
+    setIsVerifying(true)
+    try {
+      const verified = await getPaymentProvider().completeAction(pendingOrder.payment.id, passed)
+      setPendingOrder(null)
+      await completeOrder(pendingOrder.id, verified, pendingOrder.priced)
+    } catch (error) {
+      setPendingOrder(null)
+      reportPaymentError(error)
+    } finally {
+      setIsVerifying(false)
+    }
+  }
+
+  if (cartItems.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Your cart is empty</h3>
+        <p className="text-gray-500 mb-4">Add some products before checking out</p>
+        <Button asChild className="bg-amazon-orange hover:bg-orange-600">
+          <Link to="/">Continue Shopping</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  if (!user) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Sign in to check out</h3>
+        <p className="text-gray-500 mb-4">Your cart will be waiting for you</p>
+        <Button
+          onClick={() => blink.auth.login()}
+          className="bg-amazon-orange hover:bg-orange-600 text-white"
+        >
+          Sign In
+        </Button>
+      </div>
+    )
+  }
+
+  const isLoadingProducts = breakdown.lines.length < cartItems.length
+
+  return (
+    <div className="max-w-5xl mx-auto grid lg:grid-cols-[1fr_320px] gap-6 items-start">
+      <div className="bg-white rounded-lg border p-6 space-y-6">
+        <h1 className="text-2xl font-medium text-gray-900">Checkout</h1>
+        <CheckoutSteps currentStep={step} onStepSelect={setStep} />
+
+        {step === 0 && (
+          <ShippingAddressStep
+            savedAddresses={addresses}
+            initialAddressId={chosenAddress
+              ? addresses.find(saved => isSameAddress(saved, chosenAddress))?.id ?? null
+              : deliveryAddress?.id ?? null}
+            defaultValues={shippingAddress}
+            onSubmit={handleAddressSubmit}
+          />
+        )}
+        {step === 1 && (
+          <DeliveryStep
+            quotes={quotes}
+            defaultValues={delivery}
+            onSubmit={(values) => {
+              setDelivery(values)
+              setStep(2)
+            }}
+            onBack={() => setStep(0)}
+          />
+        )}
+        {step === 2 && (
+          <PaymentStep
+            defaultValues={paymentValues}
+            onSubmit={(values) => {
+              setPayment(values)
+              setStep(3)
+            }}
+            onBack={() => setStep(1)}
+          />
+        )}
+        {step === 3 && (
+          <ReviewStep
+            breakdown={breakdown}
+            getProduct={getProduct}
+            shippingAddress={shippingAddress}
+            billingAddress={billingAddress}
+            paymentMethod={describeCard(paymentValues.cardNumber)}
+            isPlacing={isPlacing || isLoadingProducts || pendingOrder !== null}
+            onEditStep={setStep}
+            onPlaceOrder={handlePlaceOrder}
+            onBack={() => setStep(2)}
+          />
+        )}
+        <ThreeDSecureDialog
+          open={pendingOrder !== null}
+          amount={pendingOrder?.payment.amount ?? 0}
+          paymentMethod={describeCard(paymentValues.cardNumber)}
+          isCompleting={isVerifying}
+          onComplete={handleVerification}
+        />
+      </div>
+
+      <aside className="bg-white rounded-lg border p-6 space-y-4">
+        <h2 className="font-medium">Order summary</h2>
+        {isLoadingProducts ? (
+          <div className="space-y-2">
+            {[...Array(4)].map((_, i) => (
+              <Skeleton key={i} className="h-4 w-full" />
+            ))}
+          </div>
+        ) : (
+          <>
+            <PriceSummary breakdown={breakdown} />
+            {couponResult && !couponResult.ok && (
+              <p className="text-xs text-red-700">{couponResult.reason}</p>
+            )}
+          </>
+        )}
+        <Button asChild variant="outline" className="w-full">
+          <Link to="/cart">Review cart</Link>
+        </Button>
+      </aside>
+    </div>
+  )
+}
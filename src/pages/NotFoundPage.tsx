@@ -0,0 +1,14 @@
+import { Link } from 'react-router-dom'
+import { Button } from '@/components/ui/button'
+
+export function NotFoundPage() {
+  return (
+    <div className="text-center py-12">
+      <h3 className="text-lg font-medium text-gray-900 mb-2">Page not found</h3>
+      <p className="text-gray-500 mb-4">The page you are looking for does not exist.</p>
+      <Button asChild className="bg-amazon-orange hover:bg-orange-600">
+        <Link to="/">Go to the home page</Link>
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import toast from 'react-hot-toast'
+import { Package } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { blink } from '@/blink/client'
+import { canCancelOrder, cancelOrder } from '@/lib/orders'
+import type { Order, PaymentStatus, User } from '@/types'
+
+// Payment states worth telling the shopper about next to the order status
+const PAYMENT_LABELS: Partial<Record<PaymentStatus, string>> = {
+  authorized: 'Payment pending',
+  partially_refunded: 'Partially refunded',
+  refunded: 'Refunded',
+  voided: 'Payment released'
+}
+
+interface OrdersPageProps {
+  user: User | null
+}
+
+export function OrdersPage({ user }: OrdersPageProps) {
+  const [orders, setOrders] = useState<Order[]>([])
+  const [isLoading, setIsLoading] = useState(Boolean(user))
+  const [cancellingId, setCancellingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!user) return
+
+    const loadOrders = async () => {
+      setIsLoading(true)
+      try {
+        const userOrders = await blink.db.orders.list({
+          where: { userId: user.id },
+          orderBy: { createdAt: 'desc' }
+        })
+        setOrders(userOrders)
+      } catch (error) {
+        console.error('Failed to load orders:', error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadOrders()
+  }, [user])
+
+  const handleCancel = async (order: Order) => {
+    setCancellingId(order.id)
+    try {
+      const cancelled = await cancelOrder(order)
+      setOrders(prev => prev.map(existing => existing.id === order.id ? cancelled : existing))
+      toast.success(cancelled.paymentStatus === 'voided'
+        ? 'Order cancelled. You have not been charged.'
+        : 'Order cancelled. Your refund is on its way.')
+    } catch (error) {
+      console.error('Failed to cancel order:', error)
+      toast.error("Couldn't cancel the order. Please try again.")
+    } finally {
+      setCancellingId(null)
+    }
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-4">
+      <h1 className="text-2xl font-medium text-gray-900">Your Orders</h1>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-20 w-full" />
+          ))}
+        </div>
+      ) : orders.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <Package className="h-12 w-12 text-gray-400 mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No orders yet</h3>
+          <p className="text-gray-500 mb-4">Orders you place will show up here</p>
+          <Button asChild className="bg-amazon-orange hover:bg-orange-600">
+            <Link to="/">Start Shopping</Link>
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {orders.map((order) => (
+            <div key={order.id} className="flex items-center justify-between p-4 bg-white border rounded-lg">
+              <div>
+                <div className="text-sm text-gray-600">
+                  Ordered {new Date(order.createdAt).toLocaleDateString()}
+                </div>
+                <div className="font-medium">Order #{order.id}</div>
+                {canCancelOrder(order) && (
+                  <button
+                    onClick={() => handleCancel(order)}
+                    disabled={cancellingId === order.id}
+                    className="text-sm text-amazon-blue hover:underline disabled:opacity-50"
+                  >
+                    Cancel order
+                  </button>
+                )}
+              </div>
+              <div className="text-right space-y-1">
+                <div className="font-bold">${Number(order.totalAmount).toFixed(2)}</div>
+                <div className="flex justify-end gap-1">
+                  <Badge variant="secondary">{order.status}</Badge>
+                  {PAYMENT_LABELS[order.paymentStatus] && (
+                    <Badge variant="outline">{PAYMENT_LABELS[order.paymentStatus]}</Badge>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,397 @@
+import { useState, useEffect, useMemo } from 'react'
+import { useLocation, useNavigate, useParams } from 'react-router-dom'
+import toast from 'react-hot-toast'
+import { ProductCard } from '@/components/product/ProductCard'
+import { FilterPanel } from '@/components/product/FilterPanel'
+import { ListingPagination } from '@/components/product/ListingPagination'
+import { CategoryBreadcrumbs } from '@/components/layout/CategoryBreadcrumbs'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Bookmark, BookmarkCheck, Filter, SlidersHorizontal } from 'lucide-react'
+import { useListingFilters } from '@/hooks/use-listing-filters'
+import { useProductPages } from '@/hooks/use-product-pages'
+import { useFacetCounts } from '@/hooks/use-facet-counts'
+import { useInfiniteScroll } from '@/hooks/use-infinite-scroll'
+import { useSpellingCorrection } from '@/hooks/use-spelling-correction'
+import { DEFAULT_FILTERS, SORT_OPTIONS, applyListingFilters, type SortOption } from '@/lib/listing'
+import { PRODUCT_PAGE_SIZE, buildListingScope, buildProductQuery } from '@/lib/product-query'
+import { getActiveFacetChips } from '@/lib/facets'
+import { findCategory, getCategoryKeys, getCategoryPath } from '@/lib/categories'
+import { buildProductSearch } from '@/lib/search'
+import { formatSearchQuery, getQueryFilterChanges, parseSearchQuery } from '@/lib/query-syntax'
+import { getSavedSearchPath } from '@/lib/search-history'
+import type { SearchHistory } from '@/hooks/use-search-history'
+import type { Category, Product } from '@/types'
+
+interface ProductListingPageProps {
+  categories: Category[]
+  brands: string[]
+  isLoading: boolean
+  onAddToCart: (productId: string) => void
+  // Tells the cart about listed products, so it knows their stock
+  onProductsLoaded: (products: Product[]) => void
+  searchHistory: SearchHistory
+}
+
+export function ProductListingPage({ categories, brands, isLoading, onAddToCart, onProductsLoaded, searchHistory }: ProductListingPageProps) {
+  const navigate = useNavigate()
+  const { pathname } = useLocation()
+  const { slug = '' } = useParams()
+  const { filters, searchParams, updateFilters } = useListingFilters()
+  const { query: searchQuery, sort: sortBy } = filters
+  const [priceRange, setPriceRange] = useState({ min: filters.minPrice, max: filters.maxPrice })
+  const [isFilterPanelOpen, setIsFilterPanelOpen] = useState(false)
+  const isPaged = filters.page > 0
+
+  const selectedCategory = slug ? findCategory(categories, slug) : undefined
+  const categoryPath = useMemo(
+    () => selectedCategory ? getCategoryPath(categories, selectedCategory) : [],
+    [categories, selectedCategory]
+  )
+
+  // A link or bookmark may carry qualifiers in `q`; move them into the filters
+  useEffect(() => {
+    // Wait for the brands, so brand:sony is spelt as the catalog spells it
+    if (isLoading) return
+    const parsed = parseSearchQuery(searchQuery, brands)
+    if (parsed.text !== searchQuery) {
+      updateFilters(getQueryFilterChanges(parsed, filters), { replace: true })
+    }
+  }, [isLoading, searchQuery, brands, filters, updateFilters])
+
+  // Keep the price inputs in step with the URL when navigating back/forward
+  useEffect(() => {
+    setPriceRange({ min: filters.minPrice, max: filters.maxPrice })
+  }, [filters.minPrice, filters.maxPrice])
+
+  const applyPriceRange = (range = priceRange) => {
+    if (range.min === filters.minPrice && range.max === filters.maxPrice) return
+    updateFilters({ minPrice: range.min, maxPrice: range.max })
+  }
+
+  const handleProductClick = (productId: string) => {
+    navigate(`/product/${productId}`)
+  }
+
+  const clearCategory = () => {
+    navigate({ pathname: searchQuery ? '/search' : '/', search: searchParams.toString() })
+  }
+
+  // A search that finds nothing may just be misspelt
+  const correction = useSpellingCorrection(searchQuery, categories, Boolean(searchQuery) && !isLoading)
+  const correctedQuery = correction?.confident ? correction.query : ''
+
+  const clearFacets = () => {
+    updateFilters({
+      brands: DEFAULT_FILTERS.brands,
+      minRating: DEFAULT_FILTERS.minRating,
+      inStock: DEFAULT_FILTERS.inStock,
+      onSale: DEFAULT_FILTERS.onSale,
+      minPrice: DEFAULT_FILTERS.minPrice,
+      maxPrice: DEFAULT_FILTERS.maxPrice,
+      specs: DEFAULT_FILTERS.specs
+    })
+  }
+
+  // Searches and filters run in the database, which pages through the results
+  const productSearch = useMemo(
+    () => buildProductSearch(correctedQuery || searchQuery, categories),
+    [correctedQuery, searchQuery, categories]
+  )
+  const categoryKeys = useMemo(
+    () => selectedCategory ? getCategoryKeys(categories, selectedCategory) : null,
+    [categories, selectedCategory]
+  )
+  const productQuery = useMemo(
+    () => buildProductQuery(filters, categoryKeys, productSearch),
+    [filters, categoryKeys, productSearch]
+  )
+  // An unknown category slug matches nothing rather than everything
+  const isUnknownCategory = Boolean(slug) && !selectedCategory
+  const productPages = useProductPages(productQuery, { page: filters.page, enabled: !isLoading && !isUnknownCategory })
+
+  const listingScope = useMemo(() => buildListingScope(categoryKeys, productSearch), [categoryKeys, productSearch])
+  const facetCounts = useFacetCounts(listingScope, filters, {
+    withSpecs: Boolean(selectedCategory),
+    enabled: !isLoading && !isUnknownCategory
+  })
+  const activeFacetChips = getActiveFacetChips(filters, facetCounts.specs)
+
+  const visibleProducts = productPages.products
+
+  useEffect(() => {
+    onProductsLoaded(visibleProducts)
+  }, [visibleProducts, onProductsLoaded])
+  const resultCount = productPages.total
+  const pageCount = Math.ceil(resultCount / PRODUCT_PAGE_SIZE)
+  const hasMore = !isPaged && productPages.hasMore
+  const isLoadingProducts = isLoading || (productPages.isLoading && productPages.products.length === 0)
+  const isLoadingMore = productPages.isLoading && productPages.products.length > 0
+
+  const loadMore = productPages.loadMore
+  const sentinelRef = useInfiniteScroll(loadMore, hasMore && !isLoadingProducts)
+
+  // Saved searches are matched on the listing path and its filters
+  const savedSearchPath = getSavedSearchPath(pathname, searchParams)
+  const savedSearch = searchHistory.savedSearches.find(search => search.path === savedSearchPath)
+  const canSaveSearch = Boolean(searchQuery || slug || activeFacetChips.length > 0)
+  const savedSearchNewMatches = savedSearch ? searchHistory.newMatchCounts[savedSearch.id] ?? 0 : 0
+  const { markSavedSearchViewed } = searchHistory
+
+  // Seeing the results clears the saved search's new-match count
+  useEffect(() => {
+    if (savedSearch && savedSearchNewMatches > 0) {
+      markSavedSearchViewed(savedSearch.id)
+    }
+  }, [savedSearch, savedSearchNewMatches, markSavedSearchViewed])
+
+  const toggleSavedSearch = async () => {
+    if (savedSearch) {
+      searchHistory.deleteSavedSearch(savedSearch.id)
+      toast.success('Search removed from your saved searches')
+      return
+    }
+
+    const description = formatSearchQuery(filters)
+    const name = [selectedCategory?.name, description].filter(Boolean).join(': ') || 'All products'
+    try {
+      await searchHistory.saveSearch(name, savedSearchPath)
+      toast.success('Search saved. Find it under Account & Lists.')
+    } catch {
+      toast.error('Could not save this search. Please try again.')
+    }
+  }
+
+  const goToPage = (page: number) => {
+    updateFilters({ page })
+    window.scrollTo({ top: 0 })
+  }
+
+  return (
+    <>
+      {categoryPath.length > 0 && <CategoryBreadcrumbs path={categoryPath} />}
+
+      {/* Filters and Search Results */}
+      <div className="mb-6">
+        <div className="flex flex-col md:flex-row gap-4 mb-4">
+          {/* Search Results Info */}
+          <div className="flex-1">
+            {searchQuery && (
+              <div className="mb-2">
+                {correctedQuery ? (
+                  <span className="text-sm text-gray-600">
+                    Showing results for <strong className="italic text-gray-900">{correctedQuery}</strong> instead
+                    of <span className="italic">{searchQuery}</span> ({resultCount} products)
+                  </span>
+                ) : (
+                  <span className="text-sm text-gray-600">
+                    Results for "{searchQuery}" ({resultCount} products)
+                  </span>
+                )}
+              </div>
+            )}
+            {slug && (
+              <Badge variant="secondary" className="mr-2">
+                {selectedCategory?.name ?? slug}
+                <button
+                  onClick={clearCategory}
+                  className="ml-2 text-gray-500 hover:text-gray-700"
+                >
+                  ×
+                </button>
+              </Badge>
+            )}
+            {activeFacetChips.map((chip) => (
+              <Badge key={chip.key} variant="outline" className="mr-2 mb-1 bg-white">
+                {chip.label}
+                <button
+                  onClick={() => updateFilters(chip.remove)}
+                  className="ml-2 text-gray-500 hover:text-gray-700"
+                  aria-label={`Remove ${chip.label} filter`}
+                >
+                  ×
+                </button>
+              </Badge>
+            ))}
+            {activeFacetChips.length > 1 && (
+              <button onClick={clearFacets} className="text-xs text-amazon-blue hover:underline">
+                Clear all
+              </button>
+            )}
+          </div>
+
+          {/* Sort and Filter Controls */}
+          <div className="flex gap-2">
+            {canSaveSearch && (
+              <Button variant="outline" className="flex items-center gap-2" onClick={toggleSavedSearch}>
+                {savedSearch ? <BookmarkCheck className="h-4 w-4" /> : <Bookmark className="h-4 w-4" />}
+                {savedSearch ? 'Saved' : 'Save search'}
+              </Button>
+            )}
+
+            <Select value={sortBy} onValueChange={(value) => updateFilters({ sort: value as SortOption })}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Sort by" />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Button
+              variant="outline"
+              className="flex items-center gap-2"
+              onClick={() => setIsFilterPanelOpen(true)}
+            >
+              <SlidersHorizontal className="h-4 w-4" />
+              Filters
+              {activeFacetChips.length > 0 && (
+                <Badge className="bg-amazon-orange text-white">{activeFacetChips.length}</Badge>
+              )}
+            </Button>
+          </div>
+        </div>
+
+        {/* Price Range Filter */}
+        <form
+          className="flex gap-2 items-center"
+          onSubmit={(e) => {
+            e.preventDefault()
+            applyPriceRange()
+          }}
+        >
+          <span className="text-sm text-gray-600">Price:</span>
+          <Input
+            type="number"
+            placeholder="Min"
+            value={priceRange.min}
+            onChange={(e) => setPriceRange(prev => ({ ...prev, min: e.target.value }))}
+            onBlur={() => applyPriceRange()}
+            className="w-20"
+          />
+          <span className="text-gray-400">-</span>
+          <Input
+            type="number"
+            placeholder="Max"
+            value={priceRange.max}
+            onChange={(e) => setPriceRange(prev => ({ ...prev, max: e.target.value }))}
+            onBlur={() => applyPriceRange()}
+            className="w-20"
+          />
+          <Button type="submit" variant="outline" size="sm">
+            Go
+          </Button>
+          {(filters.minPrice || filters.maxPrice) && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => applyPriceRange({ min: '', max: '' })}
+              className="text-gray-500"
+            >
+              Clear
+            </Button>
+          )}
+        </form>
+      </div>
+
+      {/* Products Grid */}
+      {isLoadingProducts ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
+          {[...Array(20)].map((_, i) => (
+            <div key={i} className="space-y-3">
+              <Skeleton className="aspect-square w-full" />
+              <Skeleton className="h-4 w-3/4" />
+              <Skeleton className="h-4 w-1/2" />
+              <Skeleton className="h-6 w-1/3" />
+            </div>
+          ))}
+        </div>
+      ) : visibleProducts.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="text-gray-500 mb-4">
+            <Filter className="h-12 w-12 mx-auto mb-4" />
+            <h3 className="text-lg font-medium">No products found</h3>
+            {correction && !correction.confident ? (
+              <p>
+                Did you mean{' '}
+                <button
+                  onClick={() => updateFilters({ query: correction.query })}
+                  className="font-medium italic text-amazon-blue hover:underline"
+                >
+                  {correction.query}
+                </button>
+                ?
+              </p>
+            ) : (
+              <p>Try adjusting your search or filter criteria</p>
+            )}
+          </div>
+          <Button
+            onClick={() => navigate('/')}
+            className="bg-amazon-orange hover:bg-orange-600"
+          >
+            Clear all filters
+          </Button>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
+          {visibleProducts.map((product) => (
+            <ProductCard
+              key={product.id}
+              product={product}
+              onAddToCart={onAddToCart}
+              onProductClick={handleProductClick}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Infinite scroll, with the button as a fallback */}
+      {!isLoadingProducts && hasMore && (
+        // Remounting after each page re-checks a sentinel that is still on screen
+        <div key={visibleProducts.length} ref={sentinelRef} className="text-center mt-8">
+          <Button variant="outline" size="lg" onClick={loadMore} disabled={isLoadingMore}>
+            {isLoadingMore ? 'Loading...' : 'Load More Products'}
+          </Button>
+        </div>
+      )}
+
+      {/* Numbered pages */}
+      {!isLoadingProducts && isPaged && (
+        <ListingPagination
+          page={Math.min(filters.page, Math.max(pageCount, 1))}
+          pageCount={pageCount}
+          getPageHref={(page) => `?${applyListingFilters(searchParams, { page })}`}
+          onPageChange={goToPage}
+        />
+      )}
+
+      {!isLoadingProducts && visibleProducts.length > 0 && (
+        <div className="text-center mt-4">
+          <button
+            onClick={() => updateFilters({ page: isPaged ? 0 : 1 })}
+            className="text-sm text-amazon-blue hover:underline"
+          >
+            {isPaged ? 'Switch to continuous scrolling' : 'Show numbered pages'}
+          </button>
+        </div>
+      )}
+
+      <FilterPanel
+        open={isFilterPanelOpen}
+        onOpenChange={setIsFilterPanelOpen}
+        filters={filters}
+        counts={facetCounts}
+        resultCount={resultCount}
+        onChange={updateFilters}
+        onClear={clearFacets}
+      />
+    </>
+  )
+}
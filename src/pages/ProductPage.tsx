@@ -0,0 +1,247 @@
+import { useState, useEffect, useMemo } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { Star, ShoppingCart, Zap } from 'lucide-react'
+import { ProductGallery } from '@/components/product/ProductGallery'
+import { CategoryBreadcrumbs } from '@/components/layout/CategoryBreadcrumbs'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Separator } from '@/components/ui/separator'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Table, TableBody, TableCell, TableRow } from '@/components/ui/table'
+import { blink } from '@/blink/client'
+import { findCategory, getCategoryPath } from '@/lib/categories'
+import { getAvailableStock, isLowStock } from '@/lib/stock'
+import type { Product, Category } from '@/types'
+
+const MAX_QUANTITY_OPTIONS = 10
+
+interface ProductPageProps {
+  categories: Category[]
+  onAddToCart: (productId: string, quantity?: number) => Promise<void> | void
+  // Tells the cart about the product, so it knows its stock
+  onProductsLoaded: (products: Product[]) => void
+}
+
+interface LoadedProduct {
+  id: string
+  // null once the id turns out not to exist
+  product: Product | null
+}
+
+export function ProductPage({ categories, onAddToCart, onProductsLoaded }: ProductPageProps) {
+  const navigate = useNavigate()
+  const { productId = '' } = useParams()
+  const [loaded, setLoaded] = useState<LoadedProduct | null>(null)
+  const [quantity, setQuantity] = useState(1)
+
+  const isLoading = loaded?.id !== productId
+  const product = isLoading ? null : loaded.product
+
+  const categoryPath = useMemo(() => {
+    const category = product ? findCategory(categories, product.category) : undefined
+    return category ? getCategoryPath(categories, category) : []
+  }, [categories, product])
+
+  // Always read the product itself, so price and stock are current
+  useEffect(() => {
+    let cancelled = false
+    const loadProduct = async () => {
+      try {
+        const [match]: Product[] = await blink.db.products.list({
+          where: { id: productId },
+          limit: 1
+        })
+        if (!cancelled) setLoaded({ id: productId, product: match ?? null })
+      } catch (error) {
+        console.error('Failed to load product:', error)
+        if (!cancelled) setLoaded({ id: productId, product: null })
+      }
+    }
+
+    loadProduct()
+    return () => {
+      cancelled = true
+    }
+  }, [productId])
+
+  useEffect(() => {
+    if (product) onProductsLoaded([product])
+  }, [product, onProductsLoaded])
+
+  // Each product starts from a single unit
+  useEffect(() => {
+    setQuantity(1)
+  }, [productId])
+
+  if (isLoading) {
+    return (
+      <div className="grid md:grid-cols-2 gap-8">
+        <Skeleton className="aspect-square w-full" />
+        <div className="space-y-4">
+          <Skeleton className="h-8 w-3/4" />
+          <Skeleton className="h-4 w-1/2" />
+          <Skeleton className="h-6 w-1/3" />
+        </div>
+      </div>
+    )
+  }
+
+  if (!product) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Product not found</h3>
+        <p className="text-gray-500 mb-4">This product may have been removed or is no longer available.</p>
+        <Button asChild className="bg-amazon-orange hover:bg-orange-600">
+          <Link to="/">Continue Shopping</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  const galleryImages = product.images?.length ? product.images : [product.imageUrl]
+  const specifications = Object.entries(product.specifications ?? {})
+  const availableStock = getAvailableStock(product)
+  const isAvailable = availableStock > 0
+  const maxQuantity = Math.min(availableStock, MAX_QUANTITY_OPTIONS)
+  const discountPercentage = product.originalPrice
+    ? Math.round(((product.originalPrice - product.price) / product.originalPrice) * 100)
+    : 0
+
+  const handleAddToCart = async () => {
+    await onAddToCart(product.id, quantity)
+  }
+
+  const handleBuyNow = async () => {
+    await onAddToCart(product.id, quantity)
+    navigate('/checkout')
+  }
+
+  return (
+    <>
+      <CategoryBreadcrumbs path={categoryPath} currentPage={product.title} />
+      <div className="grid md:grid-cols-2 lg:grid-cols-[2fr_2fr_1fr] gap-8">
+        {/* Product Images */}
+        <ProductGallery key={product.id} images={galleryImages} title={product.title} />
+
+        {/* Product Info */}
+        <div className="space-y-4">
+          <div className="text-sm text-amazon-blue font-medium">{product.brand}</div>
+          <h1 className="text-2xl font-medium text-gray-900">{product.title}</h1>
+
+          <div className="flex items-center gap-1">
+            {[...Array(5)].map((_, i) => (
+              <Star
+                key={i}
+                className={`h-4 w-4 ${
+                  i < Math.floor(product.rating)
+                    ? 'fill-yellow-400 text-yellow-400'
+                    : 'text-gray-300'
+                }`}
+              />
+            ))}
+            <span className="text-sm text-gray-600 ml-1">
+              {product.reviewCount.toLocaleString()} ratings
+            </span>
+          </div>
+
+          <Separator />
+
+          <div className="flex items-center gap-2">
+            {discountPercentage > 0 && (
+              <span className="text-2xl text-red-600">-{discountPercentage}%</span>
+            )}
+            <span className="text-2xl font-bold text-gray-900">${product.price.toFixed(2)}</span>
+            {product.originalPrice && (
+              <span className="text-sm text-gray-500 line-through">
+                ${product.originalPrice.toFixed(2)}
+              </span>
+            )}
+          </div>
+
+          <p className="text-gray-700">{product.description}</p>
+
+          {/* Feature Bullets */}
+          {product.features?.length > 0 && (
+            <div>
+              <h2 className="font-bold mb-2">About this item</h2>
+              <ul className="list-disc pl-5 space-y-1 text-sm text-gray-700">
+                {product.features.map((feature) => (
+                  <li key={feature}>{feature}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Specifications */}
+          {specifications.length > 0 && (
+            <div>
+              <h2 className="font-bold mb-2">Product specifications</h2>
+              <Table>
+                <TableBody>
+                  {specifications.map(([name, value]) => (
+                    <TableRow key={name}>
+                      <TableCell className="w-1/3 bg-gray-50 font-medium">{name}</TableCell>
+                      <TableCell>{value}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+
+        {/* Buy Box */}
+        <div className="md:col-span-2 lg:col-span-1">
+          <div className="border rounded-lg bg-white p-4 space-y-4 lg:sticky lg:top-32">
+            <div className="text-2xl font-bold text-gray-900">${product.price.toFixed(2)}</div>
+
+            {/* Stock level */}
+            <div className="text-lg">
+              {!isAvailable ? (
+                <span className="text-red-600">Currently unavailable</span>
+              ) : isLowStock(product) ? (
+                <span className="text-red-600">Only {availableStock} left in stock - order soon.</span>
+              ) : (
+                <span className="text-green-600">In Stock</span>
+              )}
+            </div>
+
+            {isAvailable && (
+              <>
+                <Select value={String(quantity)} onValueChange={(value) => setQuantity(Number(value))}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[...Array(maxQuantity)].map((_, i) => (
+                      <SelectItem key={i} value={String(i + 1)}>
+                        Qty: {i + 1}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <div className="space-y-2">
+                  <Button
+                    onClick={handleAddToCart}
+                    className="w-full bg-amazon-orange hover:bg-orange-600 text-white"
+                  >
+                    <ShoppingCart className="h-4 w-4 mr-2" />
+                    Add to Cart
+                  </Button>
+                  <Button
+                    onClick={handleBuyNow}
+                    className="w-full bg-orange-500 hover:bg-orange-600 text-white"
+                  >
+                    <Zap className="h-4 w-4 mr-2" />
+                    Buy Now
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -28,16 +28,39 @@ export interface Category {
   createdAt: string
 }
 
+// Saved lines stay with the cart but are not part of the order or its total
+export type CartItemStatus = 'active' | 'saved'
+
 export interface CartItem {
   id: string
   userId: string
   productId: string
   quantity: number
+  // Lines written before saving for later existed have no status and are active
+  status?: CartItemStatus
+  // Product price when the line was added, or when the shopper last accepted a change
+  price?: number
   createdAt: string
   updatedAt: string
   product?: Product
 }
 
+/**
+ * Where a payment stands with the gateway. `requires_action` waits on the
+ * shopper, e.g. a 3-D Secure challenge; `authorized` holds the funds until
+ * they are captured or the authorization is voided.
+ */
+export type PaymentStatus =
+  | 'pending'
+  | 'requires_action'
+  | 'authorized'
+  | 'captured'
+  | 'partially_refunded'
+  | 'refunded'
+  | 'voided'
+  | 'declined'
+  | 'failed'
+
 export interface Order {
   id: string
   userId: string
@@ -45,8 +68,18 @@ export interface Order {
   status: string
   shippingAddress: Address
   billingAddress: Address
+  // How the shopper paid, e.g. "Visa ending in 4242"
   paymentMethod: string
-  paymentStatus: string
+  paymentStatus: PaymentStatus
+  // The gateway's id for the payment, for capturing and refunding it later
+  paymentId?: string
+  // The price breakdown when the order was placed; older orders only have the total
+  subtotal?: number
+  shippingCost?: number
+  discountAmount?: number
+  taxAmount?: number
+  shippingSpeed?: string
+  couponCode?: string
   createdAt: string
   updatedAt: string
   items?: OrderItem[]
@@ -83,9 +116,67 @@ export interface Address {
   country: string
 }
 
+// An address kept in the shopper's address book
+export interface SavedAddress extends Address {
+  id: string
+  userId: string
+  isDefaultShipping: boolean
+  isDefaultBilling: boolean
+  createdAt: string
+  updatedAt: string
+}
+
 export interface User {
   id: string
   email: string
   displayName?: string
   avatar?: string
+}
+
+export interface SearchHistoryEntry {
+  id: string
+  userId: string
+  query: string
+  createdAt: string
+}
+
+export interface SavedSearch {
+  id: string
+  userId: string
+  name: string
+  // Listing path including its filters, e.g. /search?q=headphones&brand=Sony
+  path: string
+  lastViewedAt: string
+  createdAt: string
+}
+
+export type CouponType = 'percent' | 'fixed' | 'free-shipping'
+
+export interface Coupon {
+  id: string
+  // Stored upper case; shoppers can type it in any case
+  code: string
+  type: CouponType
+  // Percent off for percent coupons, dollars off for fixed ones, unused for free shipping
+  value: number
+  description?: string
+  // Dollars of eligible merchandise needed before the coupon applies
+  minSpend?: number
+  // Category ids or slugs, including their subcategories; empty means any category
+  categories?: string[]
+  brands?: string[]
+  // Times one shopper may redeem the coupon; unset means no limit
+  perUserLimit?: number
+  startsAt?: string
+  expiresAt?: string
+  active: boolean
+  createdAt: string
+}
+
+export interface CouponRedemption {
+  id: string
+  couponId: string
+  userId: string
+  orderId: string
+  createdAt: string
 }
\ No newline at end of file